@@ -1,15 +1,36 @@
-import { useState } from "react";
-import { Building2, FileSearch, Search, ExternalLink, Hash } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Building2, FileSearch, Search, ExternalLink, Hash, MapPin, Download } from "lucide-react";
+import type { DocumentLink } from "./types";
 
 interface SearchResult {
   _id: string;
   text: string;
   file_number: string;
+  jurisdiction: string;
+  matter_version?: string;
+  superseded: boolean;
+  linked_files: DocumentLink[];
   source_url: string;
   page_number: number;
+  metadata?: {
+    department?: string;
+    sponsors?: string[];
+    confidence?: number;
+    ocr?: boolean;
+    table_id?: string;
+    classification?: {
+      attachment_type: string;
+      confidence: number;
+    };
+  };
   score: number;
 }
 
+interface Jurisdiction {
+  id: string;
+  name: string;
+}
+
 const API_URL = "https://xaexvwrnkmjvsypqndhd.supabase.co/functions/v1/orchestrate";
 
 function App() {
@@ -17,8 +38,29 @@ function App() {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [jurisdictions, setJurisdictions] = useState<Jurisdiction[]>([]);
+  const [jurisdiction, setJurisdiction] = useState("");  // "" searches every jurisdiction
+  const [includeSuperseded, setIncludeSuperseded] = useState(false);
+  const [sponsor, setSponsor] = useState("");
+  const [department, setDepartment] = useState("");
+  const [attachmentType, setAttachmentType] = useState("");  // "" matches every type
+  const [typeCounts, setTypeCounts] = useState<Record<string, number>>({});
 
-  const handleSearch = async (searchQuery?: string) => {
+  useEffect(() => {
+    fetch(API_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "list_jurisdictions" }),
+    })
+      .then((response) => response.json())
+      .then((data) => setJurisdictions(data.data?.jurisdictions || []))
+      .catch(() => setJurisdictions([]));
+  }, []);
+
+  const selected = jurisdictions.find((j) => j.id === jurisdiction);
+  const jurisdictionName = (id: string) => jurisdictions.find((j) => j.id === id)?.name || id;
+
+  const handleSearch = async (searchQuery?: string, typeFilter = attachmentType) => {
     const q = searchQuery || query;
     if (!q.trim()) return;
 
@@ -32,6 +74,11 @@ function App() {
         body: JSON.stringify({
           action: "search",
           query: q,
+          jurisdiction: jurisdiction || undefined,
+          include_superseded: includeSuperseded,
+          sponsors: sponsor.trim() ? [sponsor.trim()] : undefined,
+          departments: department.trim() ? [department.trim()] : undefined,
+          attachment_types: typeFilter ? [typeFilter] : undefined,
           limit: 10,
           min_score: 0.5,
         }),
@@ -44,13 +91,21 @@ function App() {
           _id: r.document?._id || r._id,
           text: r.document?.text || r.text,
           file_number: r.document?.file_number || r.file_number,
+          jurisdiction: r.document?.jurisdiction || r.jurisdiction,
+          matter_version: r.document?.matter_version || r.matter_version,
+          superseded: (r.document?.superseded ?? r.superseded) === true,
+          // Agendas and minutes have no file number to show
+          linked_files: (r.document?.linked_files || r.linked_files || []).filter((link: DocumentLink) => link.file_number),
           source_url: r.document?.source_url || r.source_url,
           page_number: r.document?.page_number || r.page_number,
+          metadata: r.document?.metadata || r.metadata,
           score: r.score,
         }));
         setResults(mapped);
+        setTypeCounts(data.data.search_facets?.attachment_type || {});
       } else {
         setResults([]);
+        setTypeCounts({});
         if (data.error) setError(data.error);
       }
     } catch (err) {
@@ -70,10 +125,26 @@ function App() {
             <div className="p-2 bg-blue-100 rounded-lg">
               <Building2 className="w-6 h-6 text-blue-600" />
             </div>
-            <div>
-              <h1 className="text-xl font-bold text-gray-900">SF Zoning Compliance</h1>
-              <p className="text-sm text-gray-500">Files #250700 & #250701 | 36,200 Housing Units</p>
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-gray-900">
+                {selected ? `${selected.name} Zoning Compliance` : "Zoning Compliance"}
+              </h1>
+              <p className="text-sm text-gray-500">
+                {selected
+                  ? `${selected.name} Legistar files`
+                  : `Legistar files across ${jurisdictions.length || "all"} jurisdictions`}
+              </p>
             </div>
+            <select
+              value={jurisdiction}
+              onChange={(e) => { setJurisdiction(e.target.value); setResults([]); }}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">All jurisdictions</option>
+              {jurisdictions.map((j) => (
+                <option key={j.id} value={j.id}>{j.name}</option>
+              ))}
+            </select>
           </div>
         </div>
       </header>
@@ -109,6 +180,32 @@ function App() {
             </button>
           </form>
 
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={sponsor}
+              onChange={(e) => setSponsor(e.target.value)}
+              placeholder="Sponsor"
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <input
+              type="text"
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+              placeholder="Department"
+              className="px-3 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeSuperseded}
+                onChange={(e) => setIncludeSuperseded(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Include superseded versions
+            </label>
+          </div>
+
           {/* Quick search buttons */}
           <div className="mt-4 flex flex-wrap gap-2">
             <span className="text-xs text-gray-500">Try:</span>
@@ -131,6 +228,40 @@ function App() {
           </div>
         )}
 
+        {/* Attachment type facets */}
+        {(attachmentType || Object.keys(typeCounts).length > 0) && (
+          <div className="mb-4 flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-500">Type:</span>
+            {Object.entries(typeCounts)
+              .sort(([, a], [, b]) => b - a)
+              .map(([type, count]) => (
+                <button
+                  key={type}
+                  onClick={() => {
+                    const next = attachmentType === type ? "" : type;
+                    setAttachmentType(next);
+                    handleSearch(undefined, next);
+                  }}
+                  className={`px-2 py-1 text-xs rounded ${
+                    attachmentType === type
+                      ? "bg-blue-600 text-white"
+                      : "text-blue-600 bg-blue-50 hover:bg-blue-100"
+                  }`}
+                >
+                  {type} ({count})
+                </button>
+              ))}
+            {attachmentType && !(attachmentType in typeCounts) && (
+              <button
+                onClick={() => { setAttachmentType(""); handleSearch(undefined, ""); }}
+                className="px-2 py-1 text-xs text-white bg-blue-600 rounded"
+              >
+                {attachmentType} ×
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Results */}
         {results.length > 0 && (
           <div className="space-y-4">
@@ -146,6 +277,43 @@ function App() {
                       <Hash size={12} />
                       {result.file_number}
                     </span>
+                    {!jurisdiction && result.jurisdiction && (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                        <MapPin size={12} />
+                        {jurisdictionName(result.jurisdiction)}
+                      </span>
+                    )}
+                    {result.matter_version && (
+                      <span className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                        v{result.matter_version}
+                      </span>
+                    )}
+                    {result.superseded && (
+                      <span className="px-2 py-1 text-xs font-medium text-red-700 bg-red-50 rounded">
+                        Superseded
+                      </span>
+                    )}
+                    {result.metadata?.classification && (
+                      <span
+                        className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-50 rounded"
+                        title={`Confidence ${Math.round(result.metadata.classification.confidence * 100)}%`}
+                      >
+                        {result.metadata.classification.attachment_type}
+                      </span>
+                    )}
+                    {result.metadata?.ocr && (
+                      <span
+                        className="px-2 py-1 text-xs font-medium text-amber-700 bg-amber-50 rounded"
+                        title="Text read from a scanned page"
+                      >
+                        OCR {Math.round((result.metadata.confidence ?? 0) * 100)}%
+                      </span>
+                    )}
+                    {result.linked_files.length > 0 && (
+                      <span className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                        Also in {[...new Set(result.linked_files.map((link) => link.file_number))].join(", ")}
+                      </span>
+                    )}
                   </div>
                   <span className="px-2 py-1 text-xs font-semibold text-orange-600 bg-orange-50 rounded">
                     {Math.round(result.score * 100)}% match
@@ -155,16 +323,31 @@ function App() {
                   {result.text.length > 300 ? result.text.substring(0, 300) + "..." : result.text}
                 </p>
                 <div className="flex justify-between items-center pt-3 border-t border-gray-100">
-                  <span className="text-xs text-gray-500">Page {result.page_number}</span>
-                  <a
-                    href={result.source_url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
-                  >
-                    <ExternalLink size={14} />
-                    View PDF
-                  </a>
+                  <span className="text-xs text-gray-500">
+                    Page {result.page_number}
+                    {result.metadata?.department && ` · ${result.metadata.department}`}
+                    {result.metadata?.sponsors?.length ? ` · Sponsors: ${result.metadata.sponsors.join(", ")}` : ""}
+                  </span>
+                  <div className="flex items-center gap-4">
+                    {result.metadata?.table_id && (
+                      <a
+                        href={`${API_URL}?action=get_table&format=csv&table_id=${encodeURIComponent(result.metadata.table_id)}`}
+                        className="inline-flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700"
+                      >
+                        <Download size={14} />
+                        Table CSV
+                      </a>
+                    )}
+                    <a
+                      href={result.source_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <ExternalLink size={14} />
+                      View PDF
+                    </a>
+                  </div>
                 </div>
               </div>
             ))}
@@ -13,15 +13,24 @@ import {
   FileText,
   Cpu,
   Database,
+  Pause,
+  Play,
+  XCircle,
 } from "lucide-react";
-import type { PipelineJob } from "../types";
+import type { PipelineJob, PipelineDocumentProgress } from "../types";
 
 interface PipelineStatusProps {
   job: PipelineJob | null;
+  jurisdictionName?: string;
+  documents?: PipelineDocumentProgress[];
   isRunning: boolean;
   error: Error | null;
   onStart: () => void;
   onDismiss: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
+  onRetryFailed?: () => void;
 }
 
 const STATUS_STEPS = [
@@ -31,12 +40,25 @@ const STATUS_STEPS = [
   { key: "upserting", label: "Storage", icon: Database },
 ] as const;
 
+const DOCUMENT_STAGE_STYLES: Record<PipelineDocumentProgress["stage"], string> = {
+  discovered: "bg-gray-100 text-gray-600",
+  parsed: "bg-primary-100 text-primary-700",
+  embedded: "bg-primary-100 text-primary-700",
+  stored: "bg-green-100 text-green-700",
+};
+
 export function PipelineStatus({
   job,
+  jurisdictionName,
+  documents = [],
   isRunning,
   error,
   onStart,
   onDismiss,
+  onPause,
+  onResume,
+  onCancel,
+  onRetryFailed,
 }: PipelineStatusProps) {
   // Not started state
   if (!job && !isRunning && !error) {
@@ -46,8 +68,8 @@ export function PipelineStatus({
           <div>
             <h3 className="font-medium text-gray-900">Document Pipeline</h3>
             <p className="text-sm text-gray-500 mt-1">
-              Discover and process PDFs from SF Board of Supervisors Files
-              #250700 & #250701
+              Discover and process Legistar PDFs
+              {jurisdictionName ? ` for ${jurisdictionName}` : ""}
             </p>
           </div>
           <button
@@ -89,6 +111,9 @@ export function PipelineStatus({
   );
   const isComplete = job.status === "completed";
   const isFailed = job.status === "failed";
+  const isPaused = job.status === "paused";
+  const isCancelled = job.status === "cancelled";
+  const isActive = !isComplete && !isFailed && !isPaused && !isCancelled;
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-4">
@@ -99,6 +124,10 @@ export function PipelineStatus({
             <CheckCircle className="w-5 h-5 text-green-500" />
           ) : isFailed ? (
             <AlertCircle className="w-5 h-5 text-red-500" />
+          ) : isPaused ? (
+            <Pause className="w-5 h-5 text-amber-500" />
+          ) : isCancelled ? (
+            <XCircle className="w-5 h-5 text-gray-500" />
           ) : (
             <Loader2 className="w-5 h-5 text-primary-500 animate-spin" />
           )}
@@ -107,17 +136,56 @@ export function PipelineStatus({
               ? "Pipeline Complete"
               : isFailed
               ? "Pipeline Failed"
+              : isPaused
+              ? "Pipeline Paused"
+              : isCancelled
+              ? "Pipeline Cancelled"
+              : job.stop_requested === "pause"
+              ? "Pausing..."
+              : job.stop_requested === "cancel"
+              ? "Cancelling..."
               : "Running Pipeline..."}
           </h3>
         </div>
-        {(isComplete || isFailed) && (
-          <button
-            onClick={onDismiss}
-            className="text-sm text-gray-500 hover:text-gray-700"
-          >
-            Dismiss
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          {isActive && onPause && (
+            <button
+              onClick={onPause}
+              disabled={!!job.stop_requested}
+              className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              <Pause size={14} />
+              Pause
+            </button>
+          )}
+          {isPaused && onResume && (
+            <button
+              onClick={onResume}
+              className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-800"
+            >
+              <Play size={14} />
+              Resume
+            </button>
+          )}
+          {(isActive || isPaused) && onCancel && (
+            <button
+              onClick={onCancel}
+              disabled={job.stop_requested === "cancel"}
+              className="flex items-center gap-1 text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              <XCircle size={14} />
+              Cancel
+            </button>
+          )}
+          {!isActive && (
+            <button
+              onClick={onDismiss}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Progress Steps */}
@@ -125,7 +193,7 @@ export function PipelineStatus({
         {STATUS_STEPS.map((step, index) => {
           const Icon = step.icon;
           const isPast = index < currentStepIndex || isComplete;
-          const isCurrent = index === currentStepIndex && !isComplete;
+          const isCurrent = index === currentStepIndex && isActive;
 
           return (
             <div key={step.key} className="flex items-center">
@@ -187,6 +255,78 @@ export function PipelineStatus({
         </div>
       </div>
 
+      {/* Change Summary */}
+      {job.change_summary && (
+        <div className="mt-3 text-xs text-gray-500 text-center">
+          {job.change_summary.new} new · {job.change_summary.changed} changed ·{" "}
+          {job.change_summary.skipped} unchanged (skipped)
+          {job.change_summary.duplicates ? ` · ${job.change_summary.duplicates} duplicates (linked)` : ""}
+        </div>
+      )}
+
+      {/* Usage */}
+      {job.usage && (
+        <div className="mt-1 text-xs text-gray-500 text-center">
+          {job.usage.reducto_credits.toLocaleString()}
+          {job.max_credits ? ` / ${job.max_credits.toLocaleString()}` : ""} credits ·{" "}
+          {job.usage.embedding_tokens.toLocaleString()}
+          {job.max_tokens ? ` / ${job.max_tokens.toLocaleString()}` : ""} tokens
+        </div>
+      )}
+
+      {/* Per-PDF Progress */}
+      {documents.length > 0 && (
+        <ul className="mt-4 space-y-1 text-xs">
+          {documents.map((doc) => (
+            <li key={doc.source_url} className="flex items-start gap-2">
+              <span
+                className={`px-1.5 py-0.5 rounded font-medium ${
+                  doc.error ? "bg-red-100 text-red-700" : DOCUMENT_STAGE_STYLES[doc.stage]
+                }`}
+              >
+                {doc.error ? "failed" : doc.stage}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-gray-700" title={doc.source_url}>
+                  {doc.file_number ? `File #${doc.file_number} · ` : ""}
+                  {doc.source_url.split("/").pop()}
+                </div>
+                {doc.error && <div className="text-red-600">{doc.error}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Dead-letter list */}
+      {job.failed_documents && job.failed_documents.length > 0 && (
+        <div className="mt-4 p-3 bg-red-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-red-800">
+              {job.failed_documents.length} PDF
+              {job.failed_documents.length === 1 ? "" : "s"} failed
+            </span>
+            {!isActive && onRetryFailed && (
+              <button
+                onClick={onRetryFailed}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Retry failed
+              </button>
+            )}
+          </div>
+          <ul className="space-y-1 text-xs text-red-700">
+            {job.failed_documents.map((doc) => (
+              <li key={doc.source_url}>
+                <span className="font-medium">{doc.source_url.split("/").pop()}</span>
+                {" · "}
+                {doc.stage} · attempt {doc.attempts}: {doc.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Timing */}
       {(job.started_at || job.completed_at) && (
         <div className="mt-4 pt-4 border-t border-gray-100 flex items-center gap-4 text-xs text-gray-500">
@@ -209,16 +349,18 @@ export function PipelineStatus({
         </div>
       )}
 
-      {/* Timeout Warning - when PDFs found but 0 chunks parsed */}
-      {isComplete && job.discovered_pdfs.length > 0 && job.parsed_chunks === 0 && !job.error && (
+      {/* Waiting on Reducto - long parses finish as async jobs */}
+      {isPaused && !!job.reducto_pending && (
         <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
           <div className="flex items-start gap-2">
-            <AlertCircle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+            <Clock className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
             <div className="text-sm">
-              <p className="font-medium text-amber-800">PDF Processing Timeout</p>
+              <p className="font-medium text-amber-800">
+                Waiting on Reducto ({job.reducto_pending} PDF{job.reducto_pending === 1 ? "" : "s"})
+              </p>
               <p className="text-amber-700 mt-1">
-                The PDF parser (Reducto) takes 2-3 minutes per document, but Edge Functions timeout after ~60 seconds.
-                A local processing job is running in the background. Once complete, use the search bar above to query the documents.
+                Large documents can take a few minutes to parse. The job resumes when Reducto reports them done,
+                or resume it to check again.
               </p>
             </div>
           </div>
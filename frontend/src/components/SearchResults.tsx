@@ -5,8 +5,9 @@
 // and highlight the relevant bounding box.
 // =============================================================================
 
-import { FileText, ExternalLink, Hash, BookOpen } from "lucide-react";
+import { FileText, ExternalLink, Hash, BookOpen, Download } from "lucide-react";
 import type { SearchResult } from "../types";
+import { getTableCsvUrl } from "../lib/api";
 
 interface SearchResultsProps {
   results: SearchResult[];
@@ -100,10 +101,10 @@ function SearchResultCard({ result, rank, onViewSource }: SearchResultCardProps)
                 <Hash size={12} />
                 {result.file_number}
               </span>
-              {result.metadata?.section && (
+              {(result.metadata?.heading_path || result.metadata?.section) && (
                 <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded">
                   <BookOpen size={12} />
-                  {result.metadata.section}
+                  {result.metadata.heading_path || result.metadata.section}
                 </span>
               )}
               {result.metadata?.table_detected && (
@@ -134,13 +135,24 @@ function SearchResultCard({ result, rank, onViewSource }: SearchResultCardProps)
             </span>
           </div>
 
-          <button
-            onClick={onViewSource}
-            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-600 hover:text-primary-700 hover:bg-primary-50 rounded-md transition-colors"
-          >
-            <ExternalLink size={14} />
-            View Source
-          </button>
+          <div className="flex items-center gap-2">
+            {result.metadata?.table_id && (
+              <a
+                href={getTableCsvUrl(result.metadata.table_id)}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-md transition-colors"
+              >
+                <Download size={14} />
+                CSV
+              </a>
+            )}
+            <button
+              onClick={onViewSource}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-600 hover:text-primary-700 hover:bg-primary-50 rounded-md transition-colors"
+            >
+              <ExternalLink size={14} />
+              View Source
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -2,85 +2,264 @@
 // Pipeline Hook for SF Zoning Compliance
 // =============================================================================
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { runPipeline } from "../lib/api";
-import type { PipelineJob } from "../types";
+import {
+  runPipeline,
+  resumePipeline,
+  retryFailedDocuments,
+  pausePipeline,
+  cancelPipeline,
+  checkPipelineStatus,
+  pollPipelineUntilComplete,
+  subscribeToPipeline,
+} from "../lib/api";
+import type { PipelineJob, PipelineDocumentProgress, PipelineEvent } from "../types";
 
 interface UsePipelineReturn {
   job: PipelineJob | null;
+  documents: PipelineDocumentProgress[];
   isRunning: boolean;
   error: Error | null;
-  startPipeline: (searchTerms?: string[], pdfLimit?: number) => void;
+  startPipeline: (searchTerms?: string[], pdfLimit?: number, jurisdiction?: string) => void;
+  pauseJob: () => Promise<void>;
+  resumeJob: () => void;
+  retryFailed: () => void;
+  cancelJob: () => Promise<void>;
   clearJob: () => void;
 }
 
+// Statuses after which a job's runner has stopped
+const STOPPED_STATUSES: PipelineJob["status"][] = ["completed", "failed", "paused", "cancelled"];
+
 export function usePipeline(): UsePipelineReturn {
   const [job, setJob] = useState<PipelineJob | null>(null);
+  const [documents, setDocuments] = useState<Record<string, PipelineDocumentProgress>>({});
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+
+  // Close any open stream when the component using the hook unmounts
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  const applyEvent = useCallback((event: PipelineEvent) => {
+    switch (event.type) {
+      case "snapshot":
+        setJob(event.data);
+        break;
+      case "stage":
+        setJob((current) => current && { ...current, status: event.data.status });
+        break;
+      case "counters": {
+        const { discovered_pdfs: _discovered, ...counters } = event.data;
+        setJob((current) => current && { ...current, ...counters });
+        break;
+      }
+      case "document":
+        setDocuments((current) => ({
+          ...current,
+          [event.data.source_url]: {
+            ...current[event.data.source_url],
+            ...event.data,
+            error: undefined,
+          },
+        }));
+        break;
+      case "failure": {
+        const { source_url, message } = event.data;
+        if (source_url) {
+          setDocuments((current) => ({
+            ...current,
+            [source_url]: {
+              ...current[source_url],
+              stage: current[source_url]?.stage ?? "discovered",
+              source_url,
+              error: message,
+            },
+          }));
+        }
+        break;
+      }
+    }
+  }, []);
+
+  /**
+   * Follow a job over SSE until it finishes, falling back to polling if the
+   * stream cannot be opened. Resolves with the final stored job. afterSeq
+   * skips the events of a resumed job's earlier runs, whose "done" would
+   * otherwise end the watch straight away.
+   */
+  const watchJob = useCallback(
+    (jobId: string, afterSeq: number = 0) =>
+      new Promise<PipelineJob>((resolve, reject) => {
+        let finished = false;
+        let knownPdfs = 0;
+
+        const finish = async () => {
+          if (finished) return;
+          finished = true;
+          unsubscribeRef.current?.();
+          unsubscribeRef.current = null;
+
+          try {
+            const response = await checkPipelineStatus(jobId);
+            const finalJob = response.data?.job;
+            if (!finalJob) throw new Error(response.error || "Failed to get job status");
+
+            setJob(finalJob);
+            if (finalJob.status === "failed") {
+              reject(new Error(finalJob.error || "Pipeline failed"));
+            } else {
+              resolve(finalJob);
+            }
+          } catch (err) {
+            reject(err);
+          }
+        };
+
+        unsubscribeRef.current = subscribeToPipeline(
+          jobId,
+          (event) => {
+            applyEvent(event);
+            if (event.type === "snapshot") knownPdfs = event.data.discovered_pdfs.length;
+
+            const isDone =
+              event.type === "done" ||
+              (event.type === "snapshot" && STOPPED_STATUSES.includes(event.data.status));
+            if (isDone) finish();
+
+            // A newly discovered batch of PDFs: reload the full job for the list
+            if (event.type === "counters" && event.data.discovered_pdfs > knownPdfs) {
+              knownPdfs = event.data.discovered_pdfs;
+              checkPipelineStatus(jobId).then((response) => {
+                if (response.data?.job && !finished) setJob(response.data.job);
+              });
+            }
+          },
+          () => {
+            if (finished) return;
+            finished = true;
+            pollPipelineUntilComplete(jobId, setJob).then(resolve, reject);
+          },
+          afterSeq
+        );
+      }),
+    [applyEvent]
+  );
 
   const mutation = useMutation({
     mutationFn: async ({
       searchTerms,
       pdfLimit,
+      jurisdiction,
+      resumeJobId,
+      retryJobId,
     }: {
       searchTerms?: string[];
       pdfLimit?: number;
+      jurisdiction?: string;
+      resumeJobId?: string;
+      retryJobId?: string;
     }) => {
-      // Pipeline now runs synchronously - wait for full completion
-      const response = await runPipeline(searchTerms, pdfLimit);
+      // Pipeline runs in the background - start (or resume) it, then follow its events
+      const response = resumeJobId
+        ? await resumePipeline(resumeJobId)
+        : retryJobId
+        ? await retryFailedDocuments(retryJobId)
+        : await runPipeline(searchTerms, pdfLimit, jurisdiction);
 
-      if (!response.success) {
+      if (!response.success || !response.data?.job) {
         throw new Error(response.error || "Pipeline failed");
       }
 
-      return response.data?.job || null;
+      setJob(response.data.job);
+      return watchJob(response.data.job.job_id, response.data.last_seq);
     },
     onSuccess: (finalJob) => {
       setJob(finalJob);
     },
     onError: (error) => {
-      // Create a failed job state for UI
-      setJob({
-        job_id: "error",
-        status: "failed",
-        file_numbers: [],
-        discovered_pdfs: [],
-        parsed_chunks: 0,
-        embedded_chunks: 0,
-        upserted_chunks: 0,
-        started_at: new Date().toISOString(),
-        completed_at: new Date().toISOString(),
-        error: (error as Error).message,
-      });
+      // Keep the stored job if the backend reported the failure,
+      // otherwise create a failed job state for UI
+      setJob((current) =>
+        current?.status === "failed"
+          ? current
+          : {
+              job_id: current?.job_id || "error",
+              status: "failed",
+              file_numbers: [],
+              search_terms: [],
+              pdf_limit: 0,
+              discovered_pdfs: [],
+              parsed_chunks: 0,
+              embedded_chunks: 0,
+              upserted_chunks: 0,
+              started_at: current?.started_at || new Date().toISOString(),
+              completed_at: new Date().toISOString(),
+              error: (error as Error).message,
+            }
+      );
     },
   });
 
   const startPipeline = useCallback(
-    (searchTerms?: string[], pdfLimit?: number) => {
+    (searchTerms?: string[], pdfLimit?: number, jurisdiction?: string) => {
+      setDocuments({});
       setJob({
         job_id: "running",
-        status: "discovering",
+        status: "pending",
+        jurisdiction,
         file_numbers: [],
+        search_terms: searchTerms || [],
+        pdf_limit: pdfLimit || 0,
         discovered_pdfs: [],
         parsed_chunks: 0,
         embedded_chunks: 0,
         upserted_chunks: 0,
         started_at: new Date().toISOString(),
       });
-      mutation.mutate({ searchTerms, pdfLimit });
+      mutation.mutate({ searchTerms, pdfLimit, jurisdiction });
     },
     [mutation]
   );
 
+  const pauseJob = useCallback(async () => {
+    if (!job) return;
+    const response = await pausePipeline(job.job_id);
+    if (response.data?.job) setJob(response.data.job);
+  }, [job]);
+
+  const resumeJob = useCallback(() => {
+    if (job?.status !== "paused") return;
+    mutation.mutate({ resumeJobId: job.job_id });
+  }, [job, mutation]);
+
+  const retryFailed = useCallback(() => {
+    if (!job?.failed_documents?.length) return;
+    mutation.mutate({ retryJobId: job.job_id });
+  }, [job, mutation]);
+
+  const cancelJob = useCallback(async () => {
+    if (!job) return;
+    const response = await cancelPipeline(job.job_id);
+    if (response.data?.job) setJob(response.data.job);
+  }, [job]);
+
   const clearJob = useCallback(() => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
     setJob(null);
+    setDocuments({});
   }, []);
 
   return {
     job,
+    documents: Object.values(documents),
     isRunning: mutation.isPending,
     error: mutation.error,
     startPipeline,
+    pauseJob,
+    resumeJob,
+    retryFailed,
+    cancelJob,
     clearJob,
   };
 }
@@ -4,16 +4,23 @@
 
 import { useState, useCallback } from "react";
 import { searchDocuments } from "../lib/api";
-import type { SearchResult } from "../types";
+import type { SearchFacets, SearchResult } from "../types";
 
 interface UseSearchOptions {
   fileNumbers?: string[];
+  jurisdictions?: string[];
+  includeSuperseded?: boolean;
+  expandRelated?: boolean;
+  sponsors?: string[];
+  departments?: string[];
+  attachmentTypes?: string[];
   limit?: number;
   minScore?: number;
 }
 
 interface UseSearchReturn {
   results: SearchResult[];
+  facets: SearchFacets | null;
   isLoading: boolean;
   error: Error | null;
   search: (query: string) => void;
@@ -23,6 +30,7 @@ interface UseSearchReturn {
 
 export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
   const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [processingTime, setProcessingTime] = useState<number | null>(null);
@@ -38,6 +46,12 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
       try {
         const response = await searchDocuments(query, {
           fileNumbers: options.fileNumbers,
+          jurisdictions: options.jurisdictions,
+          includeSuperseded: options.includeSuperseded,
+          expandRelated: options.expandRelated,
+          sponsors: options.sponsors,
+          departments: options.departments,
+          attachmentTypes: options.attachmentTypes,
           limit: options.limit,
           minScore: options.minScore,
         });
@@ -61,26 +75,40 @@ export function useSearch(options: UseSearchOptions = {}): UseSearchReturn {
 
         console.log("[useSearch] Mapped results:", mappedResults);
         setResults(mappedResults);
+        setFacets(response.data?.search_facets || null);
         setProcessingTime(response.metadata?.processing_time_ms || null);
       } catch (err) {
         console.error("[useSearch] Error:", err);
         setError(err as Error);
         setResults([]);
+        setFacets(null);
       } finally {
         setIsLoading(false);
       }
     },
-    [options.fileNumbers, options.limit, options.minScore]
+    [
+      options.fileNumbers,
+      options.jurisdictions,
+      options.includeSuperseded,
+      options.expandRelated,
+      options.sponsors,
+      options.departments,
+      options.attachmentTypes,
+      options.limit,
+      options.minScore,
+    ]
   );
 
   const clearResults = useCallback(() => {
     setResults([]);
+    setFacets(null);
     setProcessingTime(null);
     setError(null);
   }, []);
 
   return {
     results,
+    facets,
     isLoading,
     error,
     search,
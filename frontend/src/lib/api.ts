@@ -2,7 +2,13 @@
 // API Client for SF Zoning Compliance Backend
 // =============================================================================
 
-import type { SearchResponse, PipelineResponse, PipelineJob } from "../types";
+import type {
+  SearchResponse,
+  PipelineResponse,
+  PipelineJob,
+  PipelineEvent,
+  DiscoverySourceConfig,
+} from "../types";
 
 // Get API URL from environment or use default
 const API_BASE_URL =
@@ -43,13 +49,40 @@ export async function searchDocuments(
   query: string,
   options: {
     fileNumbers?: string[];
+    jurisdictions?: string[];  // Omit to search every jurisdiction
+    includeSuperseded?: boolean;  // Also match older matter versions
+    expandRelated?: boolean;  // Widen fileNumbers to directly related files
+    sponsors?: string[];  // Any sponsor name containing one of these
+    departments?: string[];  // Originating department containing one of these
+    attachmentTypes?: string[];  // Classified attachment types (see search_facets)
     limit?: number;
     minScore?: number;
   } = {}
 ): Promise<SearchResponse> {
-  const { fileNumbers, limit = 10, minScore = 0.5 } = options;
+  const {
+    fileNumbers,
+    jurisdictions,
+    includeSuperseded,
+    expandRelated,
+    sponsors,
+    departments,
+    attachmentTypes,
+    limit = 10,
+    minScore = 0.5,
+  } = options;
 
-  console.log("[API] searchDocuments called with:", { query, fileNumbers, limit, minScore });
+  console.log("[API] searchDocuments called with:", {
+    query,
+    fileNumbers,
+    jurisdictions,
+    includeSuperseded,
+    expandRelated,
+    sponsors,
+    departments,
+    attachmentTypes,
+    limit,
+    minScore,
+  });
   console.log("[API] API_BASE_URL:", API_BASE_URL);
 
   const result = await apiRequest<SearchResponse>("orchestrate", {
@@ -57,6 +90,12 @@ export async function searchDocuments(
       action: "search",
       query,
       file_numbers: fileNumbers,
+      jurisdictions,
+      include_superseded: includeSuperseded,
+      expand_related: expandRelated,
+      sponsors,
+      departments,
+      attachment_types: attachmentTypes,
       limit,
       min_score: minScore,
     },
@@ -70,15 +109,254 @@ export async function searchDocuments(
 // Pipeline API
 // =============================================================================
 
+export async function listJurisdictions(): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: { action: "list_jurisdictions" },
+  });
+}
+
 export async function runPipeline(
   searchTerms?: string[],
-  pdfLimit: number = 2  // Limit to avoid timeouts
+  pdfLimit: number = 2,  // Limit to avoid timeouts
+  jurisdiction?: string,
+  sources?: DiscoverySourceConfig[]  // Replaces Legistar search-term discovery
 ): Promise<PipelineResponse> {
   return apiRequest<PipelineResponse>("orchestrate", {
     body: {
       action: "run_pipeline",
+      jurisdiction,
+      sources,
+      search_terms: searchTerms || ["housing", "zoning", "EIR", "CEQA"],
+      pdf_limit: pdfLimit,
+    },
+  });
+}
+
+export async function planPipeline(
+  searchTerms?: string[],
+  pdfLimit: number = 2,
+  maxCredits?: number,
+  jurisdiction?: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "plan_pipeline",
+      jurisdiction,
       search_terms: searchTerms || ["housing", "zoning", "EIR", "CEQA"],
       pdf_limit: pdfLimit,
+      max_credits: maxCredits,
+    },
+  });
+}
+
+export async function rerunPipeline(
+  jobId: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "run_pipeline",
+      job_id: jobId,
+    },
+  });
+}
+
+export async function pausePipeline(
+  jobId: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "pause_job",
+      job_id: jobId,
+    },
+  });
+}
+
+export async function resumePipeline(
+  jobId: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "resume_job",
+      job_id: jobId,
+    },
+  });
+}
+
+export async function cancelPipeline(
+  jobId: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "cancel_job",
+      job_id: jobId,
+    },
+  });
+}
+
+export async function retryFailedDocuments(
+  jobId: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "retry_failed",
+      job_id: jobId,
+    },
+  });
+}
+
+export async function createWatch(
+  options: {
+    name?: string;
+    jurisdiction?: string;
+    fileNumbers?: string[];
+    searchTerms?: string[];
+    sources?: DiscoverySourceConfig[];
+    intervalMinutes?: number;
+    pdfLimit?: number;
+    maxCredits?: number;
+  }
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "create_watch",
+      name: options.name,
+      jurisdiction: options.jurisdiction,
+      file_numbers: options.fileNumbers,
+      search_terms: options.searchTerms,
+      sources: options.sources,
+      interval_minutes: options.intervalMinutes,
+      pdf_limit: options.pdfLimit,
+      max_credits: options.maxCredits,
+    },
+  });
+}
+
+export async function listWatches(): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: { action: "list_watches" },
+  });
+}
+
+export async function deleteWatch(
+  watchId: string
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "delete_watch",
+      watch_id: watchId,
+    },
+  });
+}
+
+export async function listChangeReports(
+  options: { watchId?: string; limit?: number } = {}
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "list_change_reports",
+      watch_id: options.watchId,
+      limit: options.limit,
+    },
+  });
+}
+
+export async function getFileHistory(
+  fileNumber: string,
+  options: { jurisdiction?: string; fromDay?: string; toDay?: string } = {}
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "get_history",
+      jurisdiction: options.jurisdiction,
+      file_number: fileNumber,
+      from_day: options.fromDay,
+      to_day: options.toDay,
+    },
+  });
+}
+
+export async function getRelatedFiles(
+  fileNumber: string,
+  options: { jurisdiction?: string; depth?: number } = {}
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "related_files",
+      jurisdiction: options.jurisdiction,
+      file_number: fileNumber,
+      depth: options.depth,
+    },
+  });
+}
+
+// =============================================================================
+// Tables parsed from the PDFs
+// =============================================================================
+
+export async function getTable(tableId: string): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "get_table",
+      table_id: tableId,
+    },
+  });
+}
+
+/**
+ * A link that downloads a table as CSV
+ */
+export function getTableCsvUrl(tableId: string): string {
+  return `${API_BASE_URL}/orchestrate?action=get_table&format=csv&table_id=${encodeURIComponent(tableId)}`;
+}
+
+export async function searchTables(
+  query: string,
+  options: {
+    fileNumbers?: string[];
+    jurisdictions?: string[];
+    sourceUrl?: string;
+    limit?: number;
+  } = {}
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "search_tables",
+      query,
+      file_numbers: options.fileNumbers,
+      jurisdictions: options.jurisdictions,
+      source_url: options.sourceUrl,
+      limit: options.limit,
+    },
+  });
+}
+
+export async function listPipelineJobs(
+  options: { status?: PipelineJob["status"]; limit?: number } = {}
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "list_jobs",
+      status: options.status,
+      limit: options.limit,
+    },
+  });
+}
+
+export async function getUsageReport(
+  options: {
+    groupBy?: "job" | "document" | "day";
+    jobId?: string;
+    fromDay?: string;
+    toDay?: string;
+  } = {}
+): Promise<PipelineResponse> {
+  return apiRequest<PipelineResponse>("orchestrate", {
+    body: {
+      action: "get_usage",
+      group_by: options.groupBy,
+      job_id: options.jobId,
+      from_day: options.fromDay,
+      to_day: options.toDay,
     },
   });
 }
@@ -94,6 +372,51 @@ export async function checkPipelineStatus(
   });
 }
 
+// =============================================================================
+// Live progress: Server-Sent Events stream from orchestrate
+// =============================================================================
+
+const PIPELINE_EVENT_TYPES: PipelineEvent["type"][] = [
+  "snapshot",
+  "stage",
+  "document",
+  "counters",
+  "failure",
+  "done",
+];
+
+/**
+ * Subscribe to a job's progress events after afterSeq (the last_seq a run
+ * started at). Returns a function that closes the stream. EventSource
+ * reconnects on its own and resumes from the last event.
+ */
+export function subscribeToPipeline(
+  jobId: string,
+  onEvent: (event: PipelineEvent) => void,
+  onConnectionError?: () => void,
+  afterSeq: number = 0
+): () => void {
+  const url =
+    `${API_BASE_URL}/orchestrate?action=stream&job_id=${encodeURIComponent(jobId)}` +
+    (afterSeq > 0 ? `&last_event_id=${afterSeq}` : "");
+  const source = new EventSource(url);
+
+  for (const type of PIPELINE_EVENT_TYPES) {
+    source.addEventListener(type, (message) => {
+      const data = JSON.parse((message as MessageEvent<string>).data);
+      onEvent({ type, data } as PipelineEvent);
+    });
+  }
+
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      onConnectionError?.();
+    }
+  };
+
+  return () => source.close();
+}
+
 // =============================================================================
 // Helper: Poll pipeline until completion
 // =============================================================================
@@ -116,7 +439,8 @@ export async function pollPipelineUntilComplete(
         const job = response.data.job;
         onUpdate?.(job);
 
-        if (job.status === "completed") {
+        // Paused and cancelled jobs are stopped, not failed
+        if (job.status === "completed" || job.status === "paused" || job.status === "cancelled") {
           resolve(job);
           return;
         }
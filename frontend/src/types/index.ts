@@ -9,28 +9,118 @@ export interface BoundingBox {
   height: number;
 }
 
+// A word read by OCR, with its box on the page
+export interface ChunkWord {
+  text: string;
+  bbox: BoundingBox;
+  confidence: number;  // 0-1
+}
+
+export interface Jurisdiction {
+  id: string;
+  legistar_client: string;
+  name: string;
+  default_search_terms: string[];
+}
+
+export interface DocumentLink {
+  file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+  source_url: string;
+}
+
+export interface AttachmentClassification {
+  attachment_type: string;
+  confidence: number;  // 0-1
+  method: "content" | "filename" | "fallback";
+  matched: string[];
+  taxonomy_version: string;
+  classified_at: string;
+}
+
+// Counts over every match, not just the returned page of results
+export interface SearchFacets {
+  attachment_type: Record<string, number>;
+}
+
 export interface SearchResult {
   _id: string;
   text: string;
   file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+  superseded?: boolean;
+  linked_files?: DocumentLink[];  // Other files the same PDF is attached to
   source_url: string;
   page_number: number;
   bbox: BoundingBox;
   chunk_index: number;
+  words?: ChunkWord[];  // Set on OCR chunks
   score: number;
   metadata?: {
     section?: string;
     table_detected?: boolean;
+    confidence?: number;  // Mean OCR word confidence, 0-1
+    ocr?: boolean;
+    heading_path?: string;  // e.g. "4. Environmental Setting > 4.2 Noise"
+    table_id?: string;  // Set on chunks of a parsed table (see getTable)
+    body_name?: string;
+    department?: string;
+    sponsors?: string[];
+    classification?: AttachmentClassification;
+    parser?: "reducto" | "pdfjs";
     discovered_at?: string;
     parsed_at?: string;
     embedded_at?: string;
   };
 }
 
+export interface TableCell {
+  row: number;
+  column: number;
+  column_span?: number;
+  text: string;
+  bbox: BoundingBox;
+  header: boolean;
+}
+
+export interface DocumentTable {
+  table_id: string;
+  table_index: number;
+  source_url: string;
+  file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+  page_number: number;
+  rows: number;
+  columns: number;
+  header_rows: number;
+  cells: TableCell[];
+  bbox: BoundingBox;
+  estimated_cell_boxes?: boolean;  // Cell boxes divide the table's box evenly
+  chunk_indexes: number[];
+  heading_path?: string;
+  extracted_at: string;
+}
+
+export interface TableSearchResult {
+  table_id: string;
+  source_url: string;
+  file_number: string;
+  jurisdiction?: string;
+  page_number: number;
+  heading_path?: string;
+  rows: number;
+  columns: number;
+  matches: Array<TableCell & { column_header?: string; row_label?: string }>;
+}
+
 export interface SearchResponse {
   success: boolean;
   data?: {
     search_results: SearchResult[];
+    search_facets?: SearchFacets;
     message: string;
   };
   error?: string;
@@ -40,6 +130,34 @@ export interface SearchResponse {
   };
 }
 
+export type DiscoverySourceConfig =
+  | {
+      type: "legistar";
+      jurisdiction?: string;
+      file_numbers?: string[];
+      search_terms?: string[];
+      since_days?: number;
+      events?: { from_date?: string; to_date?: string; body_name?: string };
+    }
+  | {
+      type: "local";
+      jurisdiction?: string;
+      directory?: string;
+      manifest?: string;
+      base_url?: string;
+      file_number?: string;
+    }
+  | {
+      type: "crawl";
+      jurisdiction?: string;
+      url: string;
+      max_depth?: number;
+      max_pages?: number;
+      same_origin?: boolean;
+      link_pattern?: string;
+      file_number?: string;
+    };
+
 export interface PipelineJob {
   job_id: string;
   status:
@@ -48,27 +166,226 @@ export interface PipelineJob {
     | "parsing"
     | "embedding"
     | "upserting"
+    | "paused"
     | "completed"
-    | "failed";
+    | "failed"
+    | "cancelled";
+  jurisdiction?: string;
   file_numbers: string[];
+  search_terms: string[];
+  since_days?: number;
+  events?: {
+    from_date?: string;
+    to_date?: string;
+    body_name?: string;
+  };
+  sources?: DiscoverySourceConfig[];
+  pdf_limit: number;
+  parser?: "reducto" | "pdfjs" | "auto";
   discovered_pdfs: Array<{
     url: string;
     title: string;
     file_number: string;
+    jurisdiction?: string;
     attachment_type: string;
+    source?: DiscoverySourceConfig["type"];
   }>;
   parsed_chunks: number;
   embedded_chunks: number;
   upserted_chunks: number;
+  change_summary?: {
+    new: number;
+    changed: number;
+    skipped: number;
+    duplicates?: number;
+  };
+  max_credits?: number;
+  max_tokens?: number;
+  usage?: UsageSummary;
+  concurrency?: {
+    parse: number;
+    embed: number;
+  };
+  estimate?: CostEstimate;
+  deferred_pdfs?: number;
+  reducto_pending?: number;  // PDFs whose Reducto parse was still running when the job paused
+  failed_documents?: FailedDocument[];
+  stop_requested?: "pause" | "cancel";
+  watch_id?: string;
   started_at: string;
+  updated_at?: string;
   completed_at?: string;
   error?: string;
 }
 
+export interface CostEstimate {
+  pages: number;
+  reducto_credits: number;
+  embedding_tokens: number;
+}
+
+export interface UsageSummary {
+  reducto_credits: number;
+  pages_processed: number;
+  embedding_tokens: number;
+}
+
+export interface UsageReport {
+  group_by: "job" | "document" | "day";
+  rows: Array<UsageSummary & { key: string }>;
+  totals: UsageSummary;
+}
+
+export interface PipelinePlan {
+  documents: Array<{
+    url: string;
+    title: string;
+    file_number: string;
+    attachment_type: string;
+    change_status: "new" | "changed" | "unchanged" | "duplicate";
+    duplicate_of?: string;
+    will_process: boolean;
+    skip_reason?: "unchanged" | "duplicate" | "over_budget";
+    estimate: CostEstimate;
+  }>;
+  to_process: number;
+  skipped: number;
+  estimate: CostEstimate;
+  max_credits: number;
+  within_budget: boolean;
+}
+
+export interface FailedDocument {
+  source_url: string;
+  file_number: string;
+  stage: "parse" | "embed" | "store";
+  error: string;
+  attempts: number;
+  failed_at: string;
+}
+
+export interface PipelineDocumentProgress {
+  source_url: string;
+  file_number?: string;
+  stage: "discovered" | "parsed" | "embedded" | "stored";
+  change_status?: "new" | "changed" | "unchanged" | "duplicate";
+  chunk_count?: number;
+  error?: string;
+}
+
+export type PipelineEvent =
+  | { type: "snapshot"; data: PipelineJob }
+  | { type: "stage"; data: { status: PipelineJob["status"] } }
+  | { type: "document"; data: PipelineDocumentProgress }
+  | {
+      type: "counters";
+      data: Pick<
+        PipelineJob,
+        | "parsed_chunks"
+        | "embedded_chunks"
+        | "upserted_chunks"
+        | "change_summary"
+        | "usage"
+        | "failed_documents"
+      > & { discovered_pdfs: number };
+    }
+  | { type: "failure"; data: { message: string; source_url?: string; stage?: string } }
+  | { type: "done"; data: { status: PipelineJob["status"]; error?: string; completed_at?: string } };
+
+export interface Watch {
+  watch_id: string;
+  name: string;
+  jurisdiction?: string;
+  file_numbers: string[];
+  search_terms: string[];
+  sources?: DiscoverySourceConfig[];
+  pdf_limit: number;
+  max_credits: number;
+  interval_minutes: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+  next_run_at: string;
+  last_run_at?: string;
+  last_job_id?: string;
+}
+
+export interface ChangedDocument {
+  source_url: string;
+  file_number: string;
+  chunk_count: number;
+}
+
+export interface ChangeReport {
+  watch_id: string;
+  job_id: string;
+  status: PipelineJob["status"];
+  added: ChangedDocument[];
+  updated: ChangedDocument[];
+  unchanged: number;
+  duplicates?: number;
+  failed: FailedDocument[];
+  created_at: string;
+}
+
+export interface MatterVote {
+  person_name: string;
+  value: string;
+}
+
+export interface MatterAction {
+  jurisdiction: string;
+  file_number: string;
+  matter_id: number;
+  history_id: number;
+  action_date: string;
+  action_name: string;
+  action_text?: string;
+  body_name?: string;
+  passed?: boolean;
+  passed_label?: string;
+  mover?: string;
+  seconder?: string;
+  tally?: string;
+  event_id?: number;
+  agenda_sequence?: number;
+  matter_version?: string;
+  votes: MatterVote[];
+  ingested_at: string;
+}
+
+export interface RelatedFile {
+  file_number: string;
+  jurisdiction: string;
+  depth: number;
+  via: string;
+  sources: Array<"legistar" | "text">;
+}
+
 export interface PipelineResponse {
   success: boolean;
   data?: {
-    job: PipelineJob;
+    job?: PipelineJob;
+    jobs?: PipelineJob[];
+    last_seq?: number;  // Follow a resumed or retried run from here
+    plan?: PipelinePlan;
+    usage?: UsageReport;
+    watch?: Watch;
+    watches?: Watch[];
+    change_reports?: ChangeReport[];
+    history?: {
+      file_number: string;
+      actions: MatterAction[];
+    };
+    related?: {
+      file_number: string;
+      jurisdiction: string;
+      related_files: RelatedFile[];
+    };
+    jurisdictions?: Jurisdiction[];
+    table?: DocumentTable;
+    table_rows?: string[][];
+    table_results?: TableSearchResult[];
     message: string;
   };
   error?: string;
@@ -3,11 +3,25 @@
  * Local PDF Processing Script
  * Bypasses Edge Function timeouts by running locally
  *
- * Usage: npx ts-node scripts/process-pdf.ts <pdf_url> <file_number>
+ * Usage: npx ts-node scripts/process-pdf.ts <pdf_url> <file_number> [reducto|pdfjs|auto]
+ * <pdf_url> may also be a local path. The parser defaults to PDF_PARSER, then "auto".
+ * pdf.js reads scanned pages with Tesseract OCR unless PDF_OCR=false.
+ * Blocks are re-chunked to CHUNK_TARGET_TOKENS (default 400) with
+ * CHUNK_OVERLAP_TOKENS (default 50) of overlap. Tables found in the PDF are
+ * stored in document_tables.
  */
 
 import * as dotenv from 'dotenv';
 import { MongoClient } from 'mongodb';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { PdfParser, withFallback } from '../supabase/functions/_shared/parser.ts';
+import { createReductoParser } from '../supabase/functions/_shared/reducto.ts';
+import { createPdfjsParser, PdfjsCanvasModule, PdfjsModule } from '../supabase/functions/_shared/pdfjs.ts';
+import { createTesseractOcr, TesseractModule } from '../supabase/functions/_shared/ocr.ts';
+import { chunkBlocks } from '../supabase/functions/_shared/chunker.ts';
+import { collectTables, tableId } from '../supabase/functions/_shared/tables.ts';
+import { ChunkWord, DocumentTable, ReductoChunk } from '../supabase/functions/_shared/types.ts';
 
 // Load environment variables from parent directory
 dotenv.config({ path: '../.env' });
@@ -21,6 +35,8 @@ interface Chunk {
   page_number: number;
   bbox: { left: number; top: number; width: number; height: number };
   chunk_index: number;
+  words?: ChunkWord[];
+  metadata: ReductoChunk['metadata'] & { table_id?: string };
   embedding?: number[];
   file_number: string;
   source_url: string;
@@ -29,17 +45,22 @@ interface Chunk {
 async function main() {
   const pdfUrl = process.argv[2] || 'https://media.api.sf.gov/documents/250700_economic_impact_final.pdf';
   const fileNumber = process.argv[3] || '250700';
+  const parser = selectParser(process.argv[4] || process.env.PDF_PARSER || 'auto', pdfUrl);
 
   console.log(`\n📄 Processing PDF: ${pdfUrl}`);
   console.log(`📁 File Number: ${fileNumber}\n`);
 
-  // Step 1: Parse with Reducto
-  console.log('⏳ Step 1: Parsing PDF with Reducto (this may take 2-3 minutes)...');
-  const chunks = await parsePdfWithReducto(pdfUrl, fileNumber);
-  console.log(`✅ Parsed ${chunks.length} chunks\n`);
+  // Step 1: Parse
+  console.log(parser.backend === 'reducto'
+    ? '⏳ Step 1: Parsing PDF with Reducto (this may take 2-3 minutes)...'
+    : '⏳ Step 1: Parsing PDF locally with pdf.js...');
+  const { chunks, tables } = await parsePdf(pdfUrl, fileNumber, parser);
+  console.log(`✅ Parsed ${chunks.length} chunks and ${tables.length} tables\n`);
 
   if (chunks.length === 0) {
-    console.log('❌ No chunks extracted. PDF may be image-based or empty.');
+    console.log(process.env.PDF_OCR === 'false'
+      ? '❌ No chunks extracted. PDF may be image-based (OCR is off) or empty.'
+      : '❌ No chunks extracted. PDF may be empty.');
     return;
   }
 
@@ -48,6 +69,11 @@ async function main() {
   const embeddedChunks = await generateEmbeddings(chunks);
   console.log(`✅ Generated ${embeddedChunks.length} embeddings\n`);
 
+  const storedTables = await storeTables(pdfUrl, tables);
+  if (storedTables > 0) {
+    console.log(`✅ Stored ${storedTables} tables\n`);
+  }
+
   // Step 3: Verify MongoDB storage
   console.log('⏳ Step 3: Verifying MongoDB storage...');
   const client = new MongoClient(MONGODB_URI);
@@ -61,96 +87,89 @@ async function main() {
   console.log('🎉 Processing complete!');
 }
 
-async function parsePdfWithReducto(pdfUrl: string, fileNumber: string): Promise<Chunk[]> {
-  // Use AbortController for timeout (5 minutes)
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 5 * 60 * 1000);
-
-  try {
-    const response = await fetch('https://platform.reducto.ai/parse', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${REDUCTO_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        document_url: pdfUrl,
+/**
+ * The parser for a PDF: "reducto", "pdfjs" or "auto" (Reducto with a pdf.js
+ * fallback when REDUCTO_API_KEY is set and the PDF is a URL, else pdf.js)
+ */
+function selectParser(requested: string, pdfUrl: string): PdfParser {
+  const pdfjs = createPdfjsParser({
+    load_pdfjs: () => import('pdfjs-dist/legacy/build/pdf.mjs') as Promise<PdfjsModule>,
+    fetch_pdf: readPdf,
+    ocr: process.env.PDF_OCR === 'false' ? undefined : {
+      engine: createTesseractOcr({
+        load_tesseract: () => import('tesseract.js') as Promise<TesseractModule>,
+        languages: process.env.OCR_LANGUAGES || 'eng',
       }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Reducto API error: ${response.status} - ${error}`);
-    }
-
-    const data = await response.json();
-    console.log('  Reducto response keys:', Object.keys(data));
-
-    // Parse chunks from various possible response formats
-    const chunks: Chunk[] = [];
-    let chunkIndex = 0;
+      load_canvas: () => import('@napi-rs/canvas') as Promise<PdfjsCanvasModule>,
+    },
+  });
+  const reducto = () => createReductoParser({ api_key: REDUCTO_API_KEY });
+
+  switch (requested) {
+    case 'pdfjs':
+      return pdfjs;
+    case 'reducto':
+      if (!REDUCTO_API_KEY) throw new Error('REDUCTO_API_KEY is not set');
+      return reducto();
+    case 'auto':
+      // Reducto can only fetch URLs, not local files
+      return REDUCTO_API_KEY && /^https?:/.test(pdfUrl) ? withFallback(reducto(), pdfjs) : pdfjs;
+    default:
+      throw new Error(`Unknown parser: ${requested}. Use reducto, pdfjs or auto`);
+  }
+}
 
-    // Try to find content in different formats
-    if (data.result?.chunks) {
-      for (const chunk of data.result.chunks) {
-        if (chunk.content) {
-          chunks.push(createChunk(chunk.content, chunkIndex++, fileNumber, pdfUrl, chunk.blocks?.[0]?.bbox));
-        }
-        for (const block of chunk.blocks || []) {
-          if (block.content) {
-            chunks.push(createChunk(block.content, chunkIndex++, fileNumber, pdfUrl, block.bbox));
-          }
-        }
-      }
-    } else if (data.chunks) {
-      for (const chunk of data.chunks) {
-        chunks.push(createChunk(chunk.content || chunk.text || JSON.stringify(chunk), chunkIndex++, fileNumber, pdfUrl));
-      }
-    } else if (data.result?.markdown || data.markdown) {
-      const text = data.result?.markdown || data.markdown;
-      const paragraphs = text.split(/\n\n+/);
-      for (const para of paragraphs) {
-        if (para.trim().length > 20) {
-          chunks.push(createChunk(para.trim(), chunkIndex++, fileNumber, pdfUrl));
-        }
-      }
-    } else if (data.result?.text || data.text) {
-      const text = data.result?.text || data.text;
-      const paragraphs = text.split(/\n\n+/);
-      for (const para of paragraphs) {
-        if (para.trim().length > 20) {
-          chunks.push(createChunk(para.trim(), chunkIndex++, fileNumber, pdfUrl));
-        }
-      }
-    }
+/**
+ * Reads a PDF from a URL or a local path
+ */
+async function readPdf(pdfUrl: string): Promise<Uint8Array> {
+  if (!/^https?:/.test(pdfUrl)) {
+    const path = pdfUrl.startsWith('file:') ? fileURLToPath(pdfUrl) : pdfUrl;
+    return new Uint8Array(await readFile(path));
+  }
 
-    return chunks;
-  } catch (error: unknown) {
-    clearTimeout(timeoutId);
-    if ((error as Error).name === 'AbortError') {
-      throw new Error('Reducto API request timed out after 5 minutes');
-    }
-    throw error;
+  const response = await fetch(pdfUrl);
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
   }
+  return new Uint8Array(await response.arrayBuffer());
 }
 
-function createChunk(
-  text: string,
-  index: number,
+async function parsePdf(
+  pdfUrl: string,
   fileNumber: string,
-  sourceUrl: string,
-  bbox?: { left: number; top: number; width: number; height: number; page?: number }
-): Chunk {
+  parser: PdfParser
+): Promise<{ chunks: Chunk[]; tables: DocumentTable[] }> {
+  const parsed = await parser.parse(pdfUrl);
+  if (parsed.fallback_error) {
+    console.log(`  ⚠️  ${parser.backend} failed, used ${parsed.parser}: ${parsed.fallback_error}`);
+  }
+  console.log(`  Parsed ${parsed.total_pages} pages with ${parsed.parser}`);
+  const ocrBlocks = parsed.chunks.filter((chunk) => chunk.metadata.ocr).length;
+  if (ocrBlocks > 0) {
+    console.log(`  ${ocrBlocks} blocks read with OCR`);
+  }
+
+  const chunks = chunkBlocks(parsed.chunks, {
+    target_tokens: process.env.CHUNK_TARGET_TOKENS ? Number(process.env.CHUNK_TARGET_TOKENS) : undefined,
+    overlap_tokens: process.env.CHUNK_OVERLAP_TOKENS ? Number(process.env.CHUNK_OVERLAP_TOKENS) : undefined,
+  });
+  console.log(`  Chunked ${parsed.chunks.length} blocks into ${chunks.length} chunks`);
+
   return {
-    text: text.replace(/\s+/g, ' ').trim(),
-    page_number: bbox?.page || 1,
-    bbox: bbox ? { left: bbox.left, top: bbox.top, width: bbox.width, height: bbox.height } : { left: 0, top: 0, width: 612, height: 792 },
-    chunk_index: index,
-    file_number: fileNumber,
-    source_url: sourceUrl,
+    chunks: chunks.map((chunk) => ({
+      text: chunk.text,
+      page_number: chunk.page_number,
+      bbox: chunk.bbox,
+      chunk_index: chunk.chunk_index,
+      words: chunk.words,
+      metadata: chunk.metadata.table_index !== undefined
+        ? { ...chunk.metadata, table_id: tableId(pdfUrl, chunk.metadata.table_index) }
+        : chunk.metadata,
+      file_number: fileNumber,
+      source_url: pdfUrl,
+    })),
+    tables: collectTables(chunks, { source_url: pdfUrl, file_number: fileNumber }),
   };
 }
 
@@ -193,7 +212,7 @@ async function generateEmbeddings(chunks: Chunk[]): Promise<Chunk[]> {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            input: batch.map(c => c.text.slice(0, 4000)), // Truncate to stay under token limit
+            input: batch.map(c => c.text),
             model: 'voyage-law-2',
             input_type: 'document',
           }),
@@ -288,4 +307,21 @@ async function storeInMongoDB(chunks: Chunk[]): Promise<number> {
   }
 }
 
+/**
+ * Replaces the tables stored for a PDF
+ */
+async function storeTables(pdfUrl: string, tables: DocumentTable[]): Promise<number> {
+  const client = new MongoClient(MONGODB_URI);
+
+  try {
+    await client.connect();
+    const collection = client.db('sf_zoning').collection<DocumentTable>('document_tables');
+    await collection.deleteMany({ source_url: pdfUrl });
+    if (tables.length === 0) return 0;
+    return (await collection.insertMany(tables)).insertedCount;
+  } finally {
+    await client.close();
+  }
+}
+
 main().catch(console.error);
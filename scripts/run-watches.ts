@@ -0,0 +1,81 @@
+#!/usr/bin/env npx tsx
+/**
+ * Local Cron Stand-in for Watches
+ * Calls orchestrate's run_watches action on an interval, so watched file
+ * numbers / search terms are re-discovered without a hosted scheduler
+ *
+ * Usage: npx tsx scripts/run-watches.ts [--once] [--seed-target-files]
+ *   --once               Run due watches a single time and exit
+ *   --seed-target-files  Create a watch for TARGET_FILES if none exist yet
+ */
+
+import * as dotenv from 'dotenv';
+
+// Load environment variables from parent directory
+dotenv.config({ path: '../.env' });
+
+const SUPABASE_URL = (process.env.SUPABASE_URL || 'http://localhost:54321').replace(/\/$/, '');
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY;
+const TARGET_FILES = (process.env.TARGET_FILES || '').split(',').map(f => f.trim()).filter(Boolean);
+const POLL_MINUTES = Number(process.env.WATCH_POLL_MINUTES || 5);
+
+async function callOrchestrate(body: Record<string, unknown>) {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/orchestrate`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(SUPABASE_ANON_KEY ? { 'Authorization': `Bearer ${SUPABASE_ANON_KEY}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(`orchestrate ${body.action} failed: ${result.error || response.status}`);
+  }
+  return result.data;
+}
+
+async function seedTargetFiles() {
+  const { watches } = await callOrchestrate({ action: 'list_watches' });
+  if (watches.length > 0 || TARGET_FILES.length === 0) return;
+
+  const { watch } = await callOrchestrate({
+    action: 'create_watch',
+    name: `Target files ${TARGET_FILES.join(', ')}`,
+    file_numbers: TARGET_FILES,
+  });
+  console.log(`👀 Created watch ${watch.watch_id} for files ${TARGET_FILES.join(', ')}`);
+}
+
+async function tick() {
+  try {
+    const { jobs, message } = await callOrchestrate({ action: 'run_watches' });
+    console.log(`⏰ ${new Date().toISOString()} ${message}`);
+    for (const job of jobs) {
+      console.log(`   ▶ ${job.job_id} (watch ${job.watch_id})`);
+    }
+  } catch (error) {
+    // Keep the loop alive; the next tick retries
+    console.error(`❌ ${(error as Error).message}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args.includes('--seed-target-files')) {
+    await seedTargetFiles();
+  }
+
+  await tick();
+  if (args.includes('--once')) return;
+
+  console.log(`\n🔁 Checking watches every ${POLL_MINUTES} minutes (Ctrl+C to stop)\n`);
+  setInterval(tick, POLL_MINUTES * 60 * 1000);
+}
+
+main().catch((error) => {
+  console.error('❌ Error:', error.message);
+  process.exit(1);
+});
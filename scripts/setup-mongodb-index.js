@@ -57,6 +57,14 @@ async function createVectorSearchIndex() {
             type: "filter",
             path: "file_number",
           },
+          {
+            type: "filter",
+            path: "jurisdiction",
+          },
+          {
+            type: "filter",
+            path: "superseded",
+          },
           {
             type: "filter",
             path: "page_number",
@@ -65,6 +73,22 @@ async function createVectorSearchIndex() {
             type: "filter",
             path: "source_url",
           },
+          {
+            type: "filter",
+            path: "linked_files.file_number",
+          },
+          {
+            type: "filter",
+            path: "metadata.sponsors",
+          },
+          {
+            type: "filter",
+            path: "metadata.department",
+          },
+          {
+            type: "filter",
+            path: "metadata.classification.attachment_type",
+          },
         ],
       },
     };
@@ -104,9 +128,26 @@ async function createVectorSearchIndex() {
     // Create standard indexes for filtering
     console.log("\nCreating standard indexes...");
     await collection.createIndex({ file_number: 1 });
+    await collection.createIndex({ jurisdiction: 1, file_number: 1, matter_version: 1 });
     await collection.createIndex({ source_url: 1, chunk_index: 1 }, { unique: true });
     await collection.createIndex({ page_number: 1 });
     await collection.createIndex({ "metadata.section": 1 });
+    await collection.createIndex({ "linked_files.file_number": 1 });
+    await collection.createIndex({ "linked_files.source_url": 1 });
+    await collection.createIndex({ "metadata.sponsors": 1 });
+    await collection.createIndex({ "metadata.department": 1 });
+    await collection.createIndex({ "metadata.classification.attachment_type": 1 });
+    await collection.createIndex({ "metadata.table_id": 1 });
+
+    // Tables parsed from the PDFs, stored beside the chunks
+    const tables = db.collection("document_tables");
+    await tables.createIndex({ table_id: 1 }, { unique: true });
+    await tables.createIndex({ source_url: 1, table_index: 1 });
+    await tables.createIndex({ jurisdiction: 1, file_number: 1 });
+
+    // Progress events are streamed in seq order; a seq is used once per job
+    const events = db.collection("pipeline_events");
+    await events.createIndex({ job_id: 1, seq: 1 }, { unique: true });
     console.log("Standard indexes created successfully!");
 
     // Print collection stats
@@ -0,0 +1,163 @@
+// =============================================================================
+// Per-Document Pipeline Checkpoints
+// =============================================================================
+// Each discovered PDF records the last stage it completed
+// (discovered -> parsed -> embedded -> stored) together with its intermediate
+// chunks, so rerunning a job skips work that was already paid for.
+// Chunks live in their own collection to stay clear of the 16MB document limit.
+// =============================================================================
+
+import {
+  DocumentCheckpoint,
+  DocumentStage,
+  FirecrawlDiscoveryResult,
+  PipelineChunk,
+} from "./types.ts";
+import {
+  getDatabase,
+  CHECKPOINTS_COLLECTION,
+  CHECKPOINT_CHUNKS_COLLECTION,
+} from "./mongo.ts";
+import { chunkArray } from "./utils.ts";
+
+const STAGE_ORDER: DocumentStage[] = ["discovered", "parsed", "embedded", "stored"];
+
+// Max chunk records written per insertMany call
+const CHUNK_WRITE_BATCH_SIZE = 100;
+
+type StoredCheckpointChunk = PipelineChunk & { job_id: string };
+
+/**
+ * Returns true if the checkpoint has completed the given stage
+ */
+export function hasReachedStage(
+  checkpoint: DocumentCheckpoint,
+  stage: DocumentStage
+): boolean {
+  return STAGE_ORDER.indexOf(checkpoint.stage) >= STAGE_ORDER.indexOf(stage);
+}
+
+/**
+ * Loads the checkpoints for a job, creating "discovered" entries for
+ * any PDF that does not have one yet. Returned in discovery order.
+ */
+export async function ensureCheckpoints(
+  jobId: string,
+  pdfs: FirecrawlDiscoveryResult[]
+): Promise<DocumentCheckpoint[]> {
+  const db = await getDatabase();
+  const collection = db.collection<DocumentCheckpoint>(CHECKPOINTS_COLLECTION);
+  const now = new Date().toISOString();
+
+  if (pdfs.length > 0) {
+    await collection.bulkWrite(
+      pdfs.map((pdf) => ({
+        updateOne: {
+          filter: { job_id: jobId, source_url: pdf.url },
+          update: {
+            $setOnInsert: {
+              job_id: jobId,
+              source_url: pdf.url,
+              file_number: pdf.file_number,
+              stage: "discovered" as DocumentStage,
+              chunk_count: 0,
+              stored_chunks: 0,
+              updated_at: now,
+            },
+          },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  const stored = await collection
+    .find({ job_id: jobId }, { projection: { _id: 0 } })
+    .toArray();
+  const byUrl = new Map<string, DocumentCheckpoint>(
+    stored.map((checkpoint) => [checkpoint.source_url, checkpoint])
+  );
+
+  return pdfs
+    .map((pdf) => byUrl.get(pdf.url))
+    .filter((checkpoint): checkpoint is DocumentCheckpoint => !!checkpoint);
+}
+
+/**
+ * Persists a checkpoint's stage and counters
+ */
+export async function saveCheckpoint(checkpoint: DocumentCheckpoint): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<DocumentCheckpoint>(CHECKPOINTS_COLLECTION);
+  checkpoint.updated_at = new Date().toISOString();
+
+  await collection.replaceOne(
+    { job_id: checkpoint.job_id, source_url: checkpoint.source_url },
+    { ...checkpoint },
+    { upsert: true }
+  );
+}
+
+/**
+ * The checkpoint of the document a Reducto job was submitted for
+ */
+export async function findCheckpointByReductoJob(
+  reductoJobId: string
+): Promise<DocumentCheckpoint | null> {
+  const db = await getDatabase();
+  const collection = db.collection<DocumentCheckpoint>(CHECKPOINTS_COLLECTION);
+
+  return await collection.findOne(
+    { reducto_job_id: reductoJobId },
+    { projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Replaces the intermediate chunks saved for a document
+ */
+export async function saveCheckpointChunks(
+  jobId: string,
+  sourceUrl: string,
+  chunks: PipelineChunk[]
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<StoredCheckpointChunk>(CHECKPOINT_CHUNKS_COLLECTION);
+
+  await collection.deleteMany({ job_id: jobId, source_url: sourceUrl });
+
+  for (const batch of chunkArray(chunks, CHUNK_WRITE_BATCH_SIZE)) {
+    await collection.insertMany(batch.map((chunk) => ({ ...chunk, job_id: jobId })));
+  }
+}
+
+/**
+ * Loads the intermediate chunks saved for a document, in chunk order
+ */
+export async function loadCheckpointChunks(
+  jobId: string,
+  sourceUrl: string
+): Promise<PipelineChunk[]> {
+  const db = await getDatabase();
+  const collection = db.collection<StoredCheckpointChunk>(CHECKPOINT_CHUNKS_COLLECTION);
+
+  const stored = await collection
+    .find({ job_id: jobId, source_url: sourceUrl }, { projection: { _id: 0, job_id: 0 } })
+    .sort({ chunk_index: 1 })
+    .toArray();
+
+  return stored as PipelineChunk[];
+}
+
+/**
+ * Drops intermediate chunks once a document has been stored
+ */
+export async function clearCheckpointChunks(
+  jobId: string,
+  sourceUrl: string
+): Promise<void> {
+  const db = await getDatabase();
+  await db
+    .collection(CHECKPOINT_CHUNKS_COLLECTION)
+    .deleteMany({ job_id: jobId, source_url: sourceUrl });
+}
@@ -0,0 +1,368 @@
+// =============================================================================
+// Semantic Chunker
+// =============================================================================
+// Turns the blocks a parser backend returns into chunks of a steady size for
+// embedding, whichever backend produced them. Tiny blocks are merged, blocks
+// over the target size are split at sentence boundaries, and consecutive
+// chunks of a section repeat a little of each other's text. A heading starts
+// a new chunk, and every chunk records the path of headings it falls under
+// ("4. Environmental Setting > 4.2 Noise"). Tables are never merged with
+// text: each gets chunks of its own, split between rows with the header rows
+// repeated, all marked with the table's index. Sizes are estimated embedding
+// tokens (see costs.ts).
+// =============================================================================
+
+import { ChunkingOptions, ChunkWord, ReductoChunk } from "./types.ts";
+import { estimateTokens } from "./costs.ts";
+import { round, unionBox } from "./parser.ts";
+import { tableText } from "./tables.ts";
+
+export const DEFAULT_CHUNKING: Required<ChunkingOptions> = {
+  target_tokens: 400,
+  overlap_tokens: 50,
+  min_tokens: 100,
+};
+
+// Longer blocks are never headings
+const MAX_HEADING_CHARS = 120;
+const MAX_HEADING_WORDS = 12;
+
+// Short blocks repeated on this many pages are running headers or footers
+const RUNNING_HEADER_PAGES = 3;
+
+// Abbreviations whose period does not end a sentence
+const ABBREVIATIONS = /\b(?:no|nos|sec|secs|st|ave|blvd|mr|mrs|ms|dr|inc|corp|approx|fig|vol|pp|vs|e\.g|i\.e|u\.s)\.$/i;
+
+interface Heading {
+  level: number;
+  title: string;
+  numbered: boolean;  // Level comes from the heading itself, not its position
+}
+
+/**
+ * Re-chunk parsed blocks (in reading order) into chunks of about
+ * target_tokens, numbered from 0
+ */
+export function chunkBlocks(blocks: ReductoChunk[], options: ChunkingOptions = {}): ReductoChunk[] {
+  const target = Math.max(1, options.target_tokens ?? DEFAULT_CHUNKING.target_tokens);
+  const overlapTokens = Math.min(options.overlap_tokens ?? DEFAULT_CHUNKING.overlap_tokens, Math.floor(target / 2));
+  const minTokens = Math.min(options.min_tokens ?? DEFAULT_CHUNKING.min_tokens, target);
+  const runningHeaders = findRunningHeaders(blocks);
+
+  const chunks: ReductoChunk[] = [];
+  const headings: Heading[] = [];
+  let pending: ReductoChunk[] = [];
+  let pendingTokens = 0;
+  let pendingHasContent = false;
+  let overlap = "";
+  let tableCount = 0;
+
+  const flush = (carryOverlap: boolean) => {
+    if (pending.length === 0) return;
+    chunks.push(mergeBlocks(pending, overlap, chunks.length, headings));
+    overlap = carryOverlap ? tail(pending.map((block) => block.text).join(" "), overlapTokens) : "";
+    pending = [];
+    pendingTokens = 0;
+    pendingHasContent = false;
+  };
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text || runningHeaders.has(runningHeaderKey(text))) continue;
+
+    if (block.table) {
+      // Headings right above a table (its caption) open its first chunk
+      const caption = pendingHasContent ? "" : pending.map((piece) => piece.text.trim()).join("\n");
+      if (pendingHasContent) {
+        flush(false);
+      } else {
+        pending = [];
+        pendingTokens = 0;
+      }
+      overlap = "";
+
+      const tableIndex = tableCount++;
+      splitTable(block, target).forEach((piece, i) => {
+        const chunk = mergeBlocks([piece], i === 0 ? caption : "", chunks.length, headings);
+        chunks.push({ ...chunk, table: piece.table, metadata: { ...chunk.metadata, table_index: tableIndex } });
+      });
+      continue;
+    }
+
+    const heading = detectHeading(text);
+    if (heading) {
+      // A heading closes the previous section; consecutive headings open the next one together
+      if (pendingHasContent) flush(false);
+      enterHeading(headings, heading);
+    }
+
+    for (const piece of heading ? [block] : splitBlock(block, target, target - overlapTokens)) {
+      const tokens = estimateTokens(piece.text);
+      const full = pendingTokens + tokens > target;
+      const newPage = pending.length > 0 && piece.page_number !== pending[0].page_number;
+      if (pendingTokens >= minTokens && (full || newPage)) flush(true);
+
+      pending.push(piece);
+      pendingTokens += tokens;
+    }
+    if (!heading) pendingHasContent = true;
+  }
+  flush(false);
+
+  return chunks;
+}
+
+/**
+ * The heading a block is, if it is one: a Markdown heading, a numbered
+ * heading ("4.2 Noise", "Section 3 Findings"), a chapter or appendix title,
+ * or a short line in capitals
+ */
+function detectHeading(text: string): Heading | null {
+  // Sentences and table-of-contents entries ("3 Utilities . . . 5") are not headings
+  if (text.length > MAX_HEADING_CHARS || /[.,;:]$/.test(text) || /\.\s?\.\s?\./.test(text)) return null;
+
+  const markdown = text.match(/^(#{1,6})\s+(.+)$/);
+  if (markdown) {
+    return { level: markdown[1].length, title: markdown[2].trim(), numbered: true };
+  }
+
+  if (/^(?:CHAPTER|PART|APPENDIX|ARTICLE)\s+[\dIVXLC]+[A-Z]?\b/i.test(text) && isTitle(text)) {
+    return { level: 1, title: text, numbered: true };
+  }
+
+  const numbered = text.match(/^(?:SECTION\s+)?(\d+(?:\.\d+)*)\.?\s+(\S.*)$/i);
+  if (numbered && isTitle(numbered[2])) {
+    return { level: numbered[1].split(".").length, title: text, numbered: true };
+  }
+
+  if (/[A-Z]{3}/.test(text) && text === text.toUpperCase()) {
+    return { level: 0, title: text, numbered: false };
+  }
+
+  return null;
+}
+
+/**
+ * True if text reads like a title: a few words starting with a capital
+ */
+function isTitle(text: string): boolean {
+  return /^[A-Z]/.test(text) && text.split(/\s+/).length <= MAX_HEADING_WORDS;
+}
+
+/**
+ * Push a heading, first closing headings at its level or deeper. Headings
+ * without a number nest under the deepest numbered one.
+ */
+function enterHeading(headings: Heading[], heading: Heading): void {
+  const level = heading.numbered
+    ? heading.level
+    : Math.max(0, ...headings.filter((h) => h.numbered).map((h) => h.level)) + 1;
+
+  while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+    headings.pop();
+  }
+  headings.push({ ...heading, level });
+}
+
+/**
+ * A block, or its pieces of at most pieceTokens when it is over target.
+ * OCR words are divided along with the text, so each piece gets its own box.
+ */
+function splitBlock(block: ReductoChunk, target: number, pieceTokens: number): ReductoChunk[] {
+  if (estimateTokens(block.text) <= target) return [block];
+
+  const sentences = splitSentences(block.text).flatMap((sentence) =>
+    estimateTokens(sentence) > pieceTokens ? splitWords(sentence, pieceTokens) : [sentence]
+  );
+  const wordCount = block.text.split(/\s+/).filter(Boolean).length;
+  const words = block.words?.length === wordCount ? block.words : undefined;
+
+  const pieces: ReductoChunk[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  let wordStart = 0;
+  let wordEnd = 0;
+
+  const push = () => {
+    const pieceWords = words?.slice(wordStart, wordEnd);
+    pieces.push({
+      ...block,
+      text: current.join(" "),
+      bbox: pieceWords?.length ? unionBox(pieceWords.map((word) => word.bbox)) : block.bbox,
+      words: pieceWords,
+      metadata: pieceWords?.length
+        ? { ...block.metadata, confidence: meanConfidence(pieceWords) }
+        : block.metadata,
+    });
+    current = [];
+    currentTokens = 0;
+    wordStart = wordEnd;
+  };
+
+  for (const sentence of sentences) {
+    const tokens = estimateTokens(sentence);
+    if (current.length > 0 && currentTokens + tokens > pieceTokens) push();
+    current.push(sentence);
+    currentTokens += tokens;
+    wordEnd += sentence.split(/\s+/).filter(Boolean).length;
+  }
+  if (current.length > 0) push();
+
+  return pieces;
+}
+
+/**
+ * A table block, or pieces of whole rows under target when it is over it.
+ * Every piece repeats the header rows; only the first carries the table.
+ */
+function splitTable(block: ReductoChunk, target: number): ReductoChunk[] {
+  const table = block.table!;
+  if (estimateTokens(block.text) <= target || table.header_rows >= table.rows) return [block];
+
+  const pieces: ReductoChunk[] = [];
+  let from = table.header_rows;
+
+  while (from < table.rows) {
+    let to = from + 1;
+    while (to < table.rows && estimateTokens(tableText(table, from, to + 1)) <= target) to++;
+
+    const cells = table.cells.filter((cell) => cell.row >= from && cell.row < to);
+    pieces.push({
+      ...block,
+      text: tableText(table, from, to),
+      bbox: cells.length > 0 ? unionBox(cells.map((cell) => cell.bbox)) : block.bbox,
+      table: pieces.length === 0 ? table : undefined,
+    });
+    from = to;
+  }
+
+  return pieces;
+}
+
+/**
+ * One chunk from consecutive blocks, after the overlap from the previous
+ * chunk. Its box covers the blocks on its first page.
+ */
+function mergeBlocks(
+  blocks: ReductoChunk[],
+  overlap: string,
+  index: number,
+  headings: Heading[]
+): ReductoChunk {
+  const first = blocks[0];
+  const words = blocks.flatMap((block) => block.words || []);
+  const confidences = blocks
+    .map((block) => block.metadata.confidence)
+    .filter((confidence): confidence is number => confidence !== undefined);
+  const confidence = words.length > 0
+    ? meanConfidence(words)
+    : confidences.length > 0
+      ? round(confidences.reduce((total, value) => total + value, 0) / confidences.length)
+      : undefined;
+
+  return {
+    text: [overlap, ...blocks.map((block) => block.text.trim())].filter(Boolean).join("\n\n"),
+    page_number: first.page_number,
+    bbox: unionBox(blocks.filter((block) => block.page_number === first.page_number).map((block) => block.bbox)),
+    chunk_index: index,
+    words: words.length > 0 ? words : undefined,
+    metadata: {
+      section: blocks.find((block) => block.metadata.section)?.metadata.section ?? headings[headings.length - 1]?.title,
+      table_detected: blocks.some((block) => block.metadata.table_detected),
+      confidence,
+      ocr: blocks.some((block) => block.metadata.ocr) || undefined,
+      heading_path: headings.map((heading) => heading.title).join(" > ") || undefined,
+    },
+  };
+}
+
+/**
+ * Text split after sentence-ending punctuation, except after common
+ * abbreviations ("Sec.", "No."). Only whitespace is removed.
+ */
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+
+  for (const part of text.split(/(?<=[.!?]["')\]]*)\s+(?=["'(\[]?[A-Z0-9])/)) {
+    const previous = sentences[sentences.length - 1];
+    if (previous !== undefined && ABBREVIATIONS.test(previous)) {
+      sentences[sentences.length - 1] = `${previous} ${part}`;
+    } else {
+      sentences.push(part);
+    }
+  }
+
+  return sentences.map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * A sentence too long for one chunk, split between words
+ */
+function splitWords(sentence: string, maxTokens: number): string[] {
+  const parts: string[] = [];
+  let current: string[] = [];
+
+  for (const word of sentence.split(/\s+/).filter(Boolean)) {
+    if (current.length > 0 && estimateTokens([...current, word].join(" ")) > maxTokens) {
+      parts.push(current.join(" "));
+      current = [];
+    }
+    current.push(word);
+  }
+  if (current.length > 0) parts.push(current.join(" "));
+
+  return parts;
+}
+
+/**
+ * The end of text, at most tokens long: whole sentences where they fit,
+ * else the last words
+ */
+function tail(text: string, tokens: number): string {
+  if (tokens <= 0) return "";
+
+  const sentences = splitSentences(text);
+  let result = "";
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const candidate = result ? `${sentences[i]} ${result}` : sentences[i];
+    if (estimateTokens(candidate) > tokens) break;
+    result = candidate;
+  }
+  if (result) return result;
+
+  const words = text.split(/\s+/).filter(Boolean);
+  for (let i = words.length - 1; i >= 0; i--) {
+    const candidate = words.slice(i).join(" ");
+    if (estimateTokens(candidate) > tokens) break;
+    result = candidate;
+  }
+  return result;
+}
+
+/**
+ * Keys of short blocks found on several pages: running headers and footers
+ * such as "Case No. 2021-012345ENV" or "Draft EIR - Page 12"
+ */
+function findRunningHeaders(blocks: ReductoChunk[]): Set<string> {
+  const pagesByKey = new Map<string, Set<number>>();
+
+  for (const block of blocks) {
+    const text = block.text.trim();
+    if (!text || text.length > MAX_HEADING_CHARS) continue;
+    const key = runningHeaderKey(text);
+    if (!pagesByKey.has(key)) pagesByKey.set(key, new Set());
+    pagesByKey.get(key)!.add(block.page_number);
+  }
+
+  return new Set(
+    [...pagesByKey].filter(([, pages]) => pages.size >= RUNNING_HEADER_PAGES).map(([key]) => key)
+  );
+}
+
+function runningHeaderKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#");
+}
+
+function meanConfidence(words: ChunkWord[]): number {
+  return round(words.reduce((total, word) => total + word.confidence, 0) / words.length);
+}
@@ -0,0 +1,249 @@
+// =============================================================================
+// Attachment Classifier
+// =============================================================================
+// Assigns an attachment type ("EIR", "Staff Report", "Noise Study", ...) from
+// the opening pages of a parsed PDF instead of its file name. Each type in the
+// taxonomy lists phrases; a phrase found in a heading counts for more than one
+// on the first page, which counts for more than one further in. The file-name
+// guess from discovery adds a small score of its own, and decides the type
+// when the text matches nothing.
+// The taxonomy is DEFAULT_TAXONOMY unless ATTACHMENT_TAXONOMY holds another
+// one as JSON.
+// =============================================================================
+
+import { AttachmentClassification, AttachmentTaxonomy, ReductoChunk } from "./types.ts";
+
+// Pages read from the start of the document, and a cap on the text read
+const OPENING_PAGES = 3;
+const MAX_OPENING_CHARS = 20_000;
+
+// Score of one phrase found in each place
+const HEADING_WEIGHT = 3;
+const FIRST_PAGE_WEIGHT = 2;
+const OPENING_PAGES_WEIGHT = 1;
+const FILENAME_WEIGHT = 2;
+
+// Lines this short are heading candidates when set in capitals or as Markdown headings
+const MAX_HEADING_LENGTH = 100;
+
+export const DEFAULT_TAXONOMY: AttachmentTaxonomy = {
+  version: "1",
+  fallback: "Attachment",
+  types: [
+    {
+      type: "EIR",
+      phrases: [
+        "environmental impact report", "draft eir", "final eir", "significant and unavoidable",
+        "mitigation measure", "environmental setting", "cumulative impacts",
+      ],
+    },
+    {
+      type: "CEQA Document",
+      phrases: [
+        "ceqa", "categorical exemption", "negative declaration", "initial study",
+        "certificate of determination", "community plan evaluation",
+      ],
+    },
+    {
+      type: "Staff Report",
+      phrases: [
+        "staff report", "department recommendation", "staff recommendation",
+        "project sponsor", "required commission action", "basis for recommendation",
+      ],
+    },
+    {
+      type: "Executive Summary",
+      phrases: ["executive summary"],
+      weight: 0.5,
+    },
+    {
+      type: "Ordinance",
+      phrases: ["be it ordained", "ordinance amending", "ordinance no.", "note: unchanged code text"],
+    },
+    {
+      type: "Resolution",
+      phrases: ["be it resolved", "resolution no.", "resolved, that", "whereas"],
+    },
+    {
+      type: "Motion",
+      phrases: ["motion no.", "moved, that", "adopted the following motion"],
+    },
+    {
+      type: "Amendment",
+      phrases: ["amendment of the whole", "amended in committee", "proposed amendments"],
+    },
+    {
+      type: "Planning Commission",
+      phrases: ["planning commission", "commission hearing", "hearing date"],
+      weight: 0.5,
+    },
+    {
+      type: "Public Notice",
+      phrases: ["notice of public hearing", "notice is hereby given", "public hearing notice"],
+    },
+    {
+      type: "Noise Study",
+      phrases: ["noise study", "noise assessment", "acoustical", "dba", "ldn", "leq", "ambient noise"],
+    },
+    {
+      type: "Traffic Study",
+      phrases: [
+        "transportation impact study", "traffic study", "level of service",
+        "vehicle miles traveled", "trip generation", "transportation demand management",
+      ],
+    },
+    {
+      type: "Shadow Analysis",
+      phrases: ["shadow analysis", "shadow study", "net new shadow", "section 295", "shadow fan"],
+    },
+    {
+      type: "Geotechnical Report",
+      phrases: ["geotechnical", "liquefaction", "soil boring", "groundwater", "seismic design"],
+    },
+  ],
+};
+
+let cachedTaxonomy: AttachmentTaxonomy | null = null;
+
+/**
+ * The configured taxonomy: ATTACHMENT_TAXONOMY (JSON) if set, else
+ * DEFAULT_TAXONOMY. Throws if the configured taxonomy is invalid.
+ */
+export function getTaxonomy(): AttachmentTaxonomy {
+  if (cachedTaxonomy) {
+    return cachedTaxonomy;
+  }
+
+  const configured = Deno.env.get("ATTACHMENT_TAXONOMY");
+  if (!configured) {
+    cachedTaxonomy = DEFAULT_TAXONOMY;
+    return cachedTaxonomy;
+  }
+
+  let taxonomy: AttachmentTaxonomy;
+  try {
+    taxonomy = JSON.parse(configured);
+  } catch (error) {
+    throw new Error(`Invalid ATTACHMENT_TAXONOMY: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(taxonomy.types) || taxonomy.types.some((rule) => !rule.type || !Array.isArray(rule.phrases))) {
+    throw new Error("Invalid ATTACHMENT_TAXONOMY: types must be a list of { type, phrases }");
+  }
+
+  cachedTaxonomy = {
+    version: String(taxonomy.version || "custom"),
+    fallback: taxonomy.fallback || DEFAULT_TAXONOMY.fallback,
+    types: taxonomy.types,
+  };
+  return cachedTaxonomy;
+}
+
+/**
+ * Classify a parsed PDF from its opening pages. filenameGuess is the type
+ * discovery guessed from the file name, if any.
+ */
+export function classifyDocument(
+  chunks: Pick<ReductoChunk, "text" | "page_number" | "metadata">[],
+  filenameGuess?: string,
+  taxonomy: AttachmentTaxonomy = getTaxonomy()
+): AttachmentClassification {
+  const { headings, firstPage, openingPages } = readOpening(chunks);
+
+  const scored = taxonomy.types.map((rule) => {
+    const matched: string[] = [];
+    let score = 0;
+
+    for (const phrase of rule.phrases) {
+      const needle = phrase.toLowerCase();
+      let phraseScore = 0;
+      if (headings.some((heading) => containsPhrase(heading, needle))) phraseScore += HEADING_WEIGHT;
+      if (containsPhrase(firstPage, needle)) phraseScore += FIRST_PAGE_WEIGHT;
+      else if (containsPhrase(openingPages, needle)) phraseScore += OPENING_PAGES_WEIGHT;
+
+      if (phraseScore > 0) {
+        matched.push(phrase);
+        score += phraseScore;
+      }
+    }
+
+    const contentScore = score * (rule.weight ?? 1);
+    const filenameScore = filenameGuess === rule.type ? FILENAME_WEIGHT : 0;
+    return { type: rule.type, contentScore, score: contentScore + filenameScore, matched };
+  }).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scored;
+  const base = {
+    taxonomy_version: taxonomy.version,
+    classified_at: new Date().toISOString(),
+  };
+
+  if (!best || best.score === 0) {
+    return { ...base, attachment_type: taxonomy.fallback, confidence: 0, method: "fallback", matched: [] };
+  }
+
+  // A clear lead over the runner-up is worth more than a high raw score
+  const confidence = best.score / (best.score + (runnerUp?.score || 0) + FILENAME_WEIGHT);
+
+  return {
+    ...base,
+    attachment_type: best.type,
+    confidence: Math.round(confidence * 100) / 100,
+    method: best.contentScore > 0 ? "content" : "filename",
+    matched: best.matched,
+  };
+}
+
+/**
+ * Lowercased headings, first-page text and opening-pages text of a document
+ */
+function readOpening(chunks: Pick<ReductoChunk, "text" | "page_number" | "metadata">[]): {
+  headings: string[];
+  firstPage: string;
+  openingPages: string;
+} {
+  const firstPageNumber = Math.min(...chunks.map((chunk) => chunk.page_number || 1));
+  const opening = chunks
+    .filter((chunk) => (chunk.page_number || 1) < firstPageNumber + OPENING_PAGES)
+    .sort((a, b) => (a.page_number || 1) - (b.page_number || 1));
+
+  const headings: string[] = [];
+  let firstPage = "";
+  let openingPages = "";
+
+  for (const chunk of opening) {
+    if (openingPages.length >= MAX_OPENING_CHARS) break;
+
+    if (chunk.metadata?.section) {
+      headings.push(chunk.metadata.section.toLowerCase());
+    }
+    for (const line of chunk.text.split("\n")) {
+      const trimmed = line.trim();
+      if (trimmed.length === 0 || trimmed.length > MAX_HEADING_LENGTH) continue;
+      if (trimmed.startsWith("#") || (/[A-Z]/.test(trimmed) && trimmed === trimmed.toUpperCase())) {
+        headings.push(trimmed.replace(/^#+\s*/, "").toLowerCase());
+      }
+    }
+
+    const text = chunk.text.toLowerCase();
+    if ((chunk.page_number || 1) === firstPageNumber) {
+      firstPage += `${text}\n`;
+    }
+    openingPages += `${text}\n`;
+  }
+
+  return { headings, firstPage, openingPages };
+}
+
+/**
+ * True if text contains phrase as whole words
+ */
+function containsPhrase(text: string, phrase: string): boolean {
+  let index = text.indexOf(phrase);
+  while (index !== -1) {
+    const before = index === 0 ? "" : text[index - 1];
+    const after = text[index + phrase.length] || "";
+    if (!/[a-z0-9]/.test(before) && !/[a-z0-9]/.test(after)) return true;
+    index = text.indexOf(phrase, index + 1);
+  }
+  return false;
+}
@@ -0,0 +1,70 @@
+// =============================================================================
+// Cost Estimation for Reducto and Voyage AI
+// =============================================================================
+// Rough, pre-parse estimates used to preview and cap spend. Actual usage is
+// reported by the providers once a document is processed.
+// =============================================================================
+
+import { CostEstimate, ParserBackend } from "./types.ts";
+
+// Reducto bills parsing per page
+export const REDUCTO_CREDITS_PER_PAGE = 1;
+
+// Dense planning documents average roughly this many tokens per page
+export const EMBEDDING_TOKENS_PER_PAGE = 600;
+
+// Voyage tokenizes legal English at roughly four characters per token
+const CHARS_PER_TOKEN = 4;
+
+// Fallback when the page tree cannot be read (e.g. compressed object streams)
+const BYTES_PER_PAGE_FALLBACK = 50_000;
+
+/**
+ * Estimates the page count of a PDF from its raw bytes
+ */
+export function estimatePageCount(bytes: ArrayBuffer): number {
+  const content = new TextDecoder("latin1").decode(bytes);
+
+  // Count leaf page objects (/Type /Page, but not /Type /Pages)
+  const pageObjects = content.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length || 0;
+  if (pageObjects > 0) return pageObjects;
+
+  // Fall back to the largest page tree /Count
+  const counts = [...content.matchAll(/\/Count\s+(\d+)/g)].map((match) => Number(match[1]));
+  if (counts.length > 0) return Math.max(...counts);
+
+  return Math.max(1, Math.round(bytes.byteLength / BYTES_PER_PAGE_FALLBACK));
+}
+
+/**
+ * Estimates Reducto credits and embedding tokens for a number of pages.
+ * Parsing with pdf.js costs no credits.
+ */
+export function estimateCost(pages: number, parser?: ParserBackend | "auto"): CostEstimate {
+  return {
+    pages,
+    reducto_credits: parser === "pdfjs" ? 0 : pages * REDUCTO_CREDITS_PER_PAGE,
+    embedding_tokens: pages * EMBEDDING_TOKENS_PER_PAGE,
+  };
+}
+
+/**
+ * Adds up several estimates
+ */
+export function sumEstimates(estimates: CostEstimate[]): CostEstimate {
+  return estimates.reduce(
+    (total, estimate) => ({
+      pages: total.pages + estimate.pages,
+      reducto_credits: total.reducto_credits + estimate.reducto_credits,
+      embedding_tokens: total.embedding_tokens + estimate.embedding_tokens,
+    }),
+    { pages: 0, reducto_credits: 0, embedding_tokens: 0 }
+  );
+}
+
+/**
+ * Estimates the embedding tokens for a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
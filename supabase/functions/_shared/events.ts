@@ -0,0 +1,104 @@
+// =============================================================================
+// Pipeline Progress Events
+// =============================================================================
+// The background runner appends events to a per-job log; the orchestrate
+// stream action tails the log and forwards it as Server-Sent Events.
+// Errors are sent as "failure" events because EventSource reserves "error"
+// for connection problems.
+// =============================================================================
+
+import { PipelineEvent, PipelineEventType } from "./types.ts";
+import { getDatabase, EVENTS_COLLECTION } from "./mongo.ts";
+
+export type EmitEvent = (type: PipelineEventType, data: Record<string, unknown>) => Promise<void>;
+
+// Where an event log is kept: the pipeline_events collection, or a fake in tests
+export interface EventStore {
+  lastSeq(jobId: string): Promise<number>;
+  insert(event: PipelineEvent): Promise<void>;
+}
+
+const mongoEventStore: EventStore = {
+  lastSeq: (jobId) => getLastSeq(jobId),
+  async insert(event) {
+    const collection = await getEventsCollection();
+    await collection.insertOne({ ...event });
+  },
+};
+
+async function getEventsCollection() {
+  const db = await getDatabase();
+  return db.collection<PipelineEvent>(EVENTS_COLLECTION);
+}
+
+/**
+ * Creates an emitter for a job's event log. Sequence numbers continue from
+ * the last stored event, so a resumed job keeps a single ordered log.
+ * Only one runner writes to a job at a time, but its parse, embed and store
+ * pools emit side by side: events are written one after another, in the
+ * order they were emitted, because a stream that has read seq N+1 never
+ * looks back for N.
+ */
+export function createEventLog(jobId: string, store: EventStore = mongoEventStore): EmitEvent {
+  let lastSeq: number | null = null;
+  let written: Promise<void> = Promise.resolve();
+
+  const append = async (type: PipelineEventType, data: Record<string, unknown>) => {
+    try {
+      lastSeq ??= await store.lastSeq(jobId);
+      await store.insert({
+        job_id: jobId,
+        seq: lastSeq + 1,
+        type,
+        data,
+        at: new Date().toISOString(),
+      });
+      lastSeq += 1;
+    } catch (error) {
+      // Progress events are best-effort; never fail the pipeline over them.
+      // The next event reloads the last seq in case this one was stored after all.
+      lastSeq = null;
+      console.warn(`[events] Failed to record ${type} event for ${jobId}:`, error);
+    }
+  };
+
+  return (type, data) => {
+    written = written.then(() => append(type, data));
+    return written;
+  };
+}
+
+/**
+ * The sequence number of a job's latest event, 0 if it has none. A client
+ * following a resumed job streams from here, past the earlier runs' events.
+ */
+export async function getLastSeq(jobId: string): Promise<number> {
+  const collection = await getEventsCollection();
+  const last = await collection.find({ job_id: jobId }).sort({ seq: -1 }).limit(1).next();
+  return last?.seq ?? 0;
+}
+
+/**
+ * Lists a job's events after the given sequence number, oldest first
+ */
+export async function listEvents(
+  jobId: string,
+  afterSeq: number = 0,
+  limit: number = 100
+): Promise<PipelineEvent[]> {
+  const collection = await getEventsCollection();
+
+  return await collection
+    .find({ job_id: jobId, seq: { $gt: afterSeq } }, { projection: { _id: 0 } })
+    .sort({ seq: 1 })
+    .limit(limit)
+    .toArray();
+}
+
+/**
+ * Formats an event as a Server-Sent Events message
+ */
+export function formatSSE(event: { seq?: number; type: string; data: unknown }): string {
+  const id = event.seq !== undefined ? `id: ${event.seq}\n` : "";
+  return `${id}event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
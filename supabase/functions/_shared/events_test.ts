@@ -0,0 +1,67 @@
+// =============================================================================
+// Pipeline Event Log Tests
+// =============================================================================
+// Offline: the log writes to an in-memory store whose inserts finish after
+// random delays, the way concurrent writes to MongoDB can.
+// Run with: deno test supabase/functions
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createEventLog, EventStore } from "./events.ts";
+import { PipelineEvent } from "./types.ts";
+
+function createSlowStore(existing: PipelineEvent[] = []): EventStore & { stored: PipelineEvent[] } {
+  const stored = [...existing];
+  return {
+    stored,
+    lastSeq: (jobId) =>
+      Promise.resolve(Math.max(0, ...stored.filter((event) => event.job_id === jobId).map((event) => event.seq))),
+    async insert(event) {
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 10));
+      stored.push(event);
+    },
+  };
+}
+
+Deno.test("event log stores concurrent emits in seq order", async () => {
+  const store = createSlowStore();
+  const emit = createEventLog("job-1", store);
+
+  // Parse, embed and store pools emitting side by side
+  await Promise.all(
+    Array.from({ length: 20 }, (_, index) => emit("document", { index }))
+  );
+
+  assertEquals(store.stored.map((event) => event.seq), Array.from({ length: 20 }, (_, index) => index + 1));
+  assertEquals(store.stored.map((event) => event.data.index), Array.from({ length: 20 }, (_, index) => index));
+});
+
+Deno.test("event log continues from the last stored seq", async () => {
+  const store = createSlowStore([
+    { job_id: "job-1", seq: 7, type: "done", data: {}, at: "2025-06-01T00:00:00.000Z" },
+  ]);
+  const emit = createEventLog("job-1", store);
+
+  await Promise.all([emit("stage", { status: "parsing" }), emit("counters", {})]);
+
+  assertEquals(store.stored.map((event) => event.seq), [7, 8, 9]);
+});
+
+Deno.test("event log carries on after a failed write", async () => {
+  const store = createSlowStore();
+  const insert = store.insert;
+  let failNext = true;
+  store.insert = (event) => {
+    if (failNext) {
+      failNext = false;
+      return Promise.reject(new Error("connection reset"));
+    }
+    return insert(event);
+  };
+  const emit = createEventLog("job-1", store);
+
+  await Promise.all([emit("stage", { status: "parsing" }), emit("counters", {}), emit("done", {})]);
+
+  // The lost event's seq is reused, so the stream has no gap to wait on
+  assertEquals(store.stored.map((event) => [event.seq, event.type]), [[1, "counters"], [2, "done"]]);
+});
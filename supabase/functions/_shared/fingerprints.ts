@@ -0,0 +1,148 @@
+// =============================================================================
+// Content Fingerprints for Incremental Re-ingestion
+// =============================================================================
+// Remembers what each source_url looked like when it was last stored, so a
+// rerun can skip parse/embed for attachments that have not changed.
+// A new URL whose content hash matches a stored document is a copy of it.
+// =============================================================================
+
+import { ChangeStatus, SourceDocument, SourceFingerprint } from "./types.ts";
+import { getDatabase, SOURCE_DOCUMENTS_COLLECTION } from "./mongo.ts";
+import { estimatePageCount } from "./costs.ts";
+
+export interface ChangeDetection {
+  status: ChangeStatus;
+  fingerprint: SourceFingerprint;
+}
+
+async function getSourceDocumentsCollection() {
+  const db = await getDatabase();
+  return db.collection<SourceDocument>(SOURCE_DOCUMENTS_COLLECTION);
+}
+
+/**
+ * Loads the stored record for a source URL, or null if it was never ingested
+ */
+export async function getSourceDocument(sourceUrl: string): Promise<SourceDocument | null> {
+  const collection = await getSourceDocumentsCollection();
+  return await collection.findOne({ source_url: sourceUrl }, { projection: { _id: 0 } });
+}
+
+/**
+ * The stored original with the given content under a URL other than
+ * sourceUrl, or null. Copies are never returned, so links always point at
+ * the URL whose chunks are stored.
+ */
+export async function findStoredOriginal(
+  contentHash: string,
+  sourceUrl: string
+): Promise<SourceDocument | null> {
+  const collection = await getSourceDocumentsCollection();
+  // null also matches records saved before duplicate_of existed
+  const filter: Record<string, unknown> = {
+    content_hash: contentHash,
+    source_url: { $ne: sourceUrl },
+    duplicate_of: null,
+  };
+  return await collection.findOne(filter, { projection: { _id: 0 }, sort: { last_ingested_at: 1 } });
+}
+
+/**
+ * Records the fingerprint of a source URL after it has been stored
+ */
+export async function saveSourceDocument(document: SourceDocument): Promise<void> {
+  const collection = await getSourceDocumentsCollection();
+  await collection.replaceOne(
+    { source_url: document.source_url },
+    { ...document },
+    { upsert: true }
+  );
+}
+
+/**
+ * SHA-256 of the given bytes as a hex string
+ */
+export async function hashContent(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Downloads an attachment and fingerprints its bytes
+ */
+export async function fetchFingerprint(url: string): Promise<SourceFingerprint> {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const bytes = await response.arrayBuffer();
+
+  return {
+    content_hash: await hashContent(bytes),
+    etag: response.headers.get("etag") || undefined,
+    last_modified: response.headers.get("last-modified") || undefined,
+    content_length: bytes.byteLength,
+    page_count: estimatePageCount(bytes),
+  };
+}
+
+/**
+ * Compares an attachment with what was stored for its URL.
+ * Matching HTTP validators (ETag / Last-Modified) short-circuit the download;
+ * otherwise the bytes are fetched and their hash compared.
+ */
+export async function detectChange(url: string): Promise<ChangeDetection> {
+  const stored = await getSourceDocument(url);
+
+  if (stored) {
+    const validators = await fetchValidators(url);
+    const etagMatches = !!validators.etag && validators.etag === stored.etag;
+    const lastModifiedMatches = !validators.etag && !!validators.last_modified &&
+      validators.last_modified === stored.last_modified;
+
+    if (etagMatches || lastModifiedMatches) {
+      return {
+        status: "unchanged",
+        fingerprint: {
+          content_hash: stored.content_hash,
+          content_length: stored.content_length,
+          page_count: stored.page_count,
+          ...validators,
+        },
+      };
+    }
+  }
+
+  const fingerprint = await fetchFingerprint(url);
+
+  if (!stored) {
+    return { status: "new", fingerprint };
+  }
+
+  return {
+    status: stored.content_hash === fingerprint.content_hash ? "unchanged" : "changed",
+    fingerprint,
+  };
+}
+
+/**
+ * Reads ETag / Last-Modified with a HEAD request. Servers that reject HEAD
+ * simply yield no validators, which falls back to hashing.
+ */
+async function fetchValidators(url: string): Promise<SourceFingerprint> {
+  try {
+    const response = await fetch(url, { method: "HEAD" });
+    if (!response.ok) return {};
+
+    return {
+      etag: response.headers.get("etag") || undefined,
+      last_modified: response.headers.get("last-modified") || undefined,
+    };
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,63 @@
+// =============================================================================
+// Legislative History Store
+// =============================================================================
+// Legistar matter histories (referrals, hearing actions, amendments) with
+// their roll-call votes, one record per history entry, keyed by
+// jurisdiction + history_id and queried by jurisdiction + file_number.
+// =============================================================================
+
+import { MatterAction } from "./types.ts";
+import { getDatabase, MATTER_ACTIONS_COLLECTION } from "./mongo.ts";
+import { DEFAULT_JURISDICTION } from "./jurisdictions.ts";
+
+async function getActionsCollection() {
+  const db = await getDatabase();
+  return db.collection<MatterAction>(MATTER_ACTIONS_COLLECTION);
+}
+
+/**
+ * Inserts or replaces history entries. Returns the number written.
+ */
+export async function saveMatterActions(actions: MatterAction[]): Promise<number> {
+  if (actions.length === 0) return 0;
+
+  const collection = await getActionsCollection();
+  const result = await collection.bulkWrite(
+    actions.map((action) => ({
+      replaceOne: {
+        filter: { jurisdiction: action.jurisdiction, history_id: action.history_id },
+        replacement: action,
+        upsert: true,
+      },
+    }))
+  );
+
+  return result.upsertedCount + result.modifiedCount;
+}
+
+/**
+ * A file's history in date order, optionally limited to a date window
+ * (YYYY-MM-DD, inclusive). File numbers are only unique within a jurisdiction.
+ */
+export async function getMatterActions(
+  fileNumber: string,
+  options: { jurisdiction?: string; from_date?: string; to_date?: string } = {}
+): Promise<MatterAction[]> {
+  const collection = await getActionsCollection();
+  const actionDate: Record<string, string> = {};
+
+  if (options.from_date) actionDate.$gte = options.from_date;
+  if (options.to_date) actionDate.$lte = `${options.to_date}T23:59:59`;
+
+  return await collection
+    .find(
+      {
+        jurisdiction: options.jurisdiction || DEFAULT_JURISDICTION,
+        file_number: fileNumber,
+        ...(Object.keys(actionDate).length > 0 ? { action_date: actionDate } : {}),
+      },
+      { projection: { _id: 0 } }
+    )
+    .sort({ action_date: 1, agenda_sequence: 1, history_id: 1 })
+    .toArray();
+}
@@ -0,0 +1,186 @@
+// =============================================================================
+// Persistent Pipeline Job Store
+// =============================================================================
+// Jobs outlive the request that started them, so their state is kept in
+// MongoDB and read back by check_status / list_jobs.
+// =============================================================================
+
+import { PipelineJob, PipelineJobStatus, StopRequest } from "./types.ts";
+import { getDatabase, JOBS_COLLECTION } from "./mongo.ts";
+
+const TERMINAL_STATUSES: PipelineJobStatus[] = ["completed", "failed", "cancelled"];
+
+async function getJobsCollection() {
+  const db = await getDatabase();
+  return db.collection<PipelineJob>(JOBS_COLLECTION);
+}
+
+/**
+ * Returns true once a job will not change status again
+ */
+export function isTerminalStatus(status: PipelineJobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Returns true while a job is being worked on - not finished and not paused
+ */
+export function isActiveStatus(status: PipelineJobStatus): boolean {
+  return !isTerminalStatus(status) && status !== "paused";
+}
+
+/**
+ * The fields a runner saves. stop_requested and reducto_completed are left
+ * alone: they are written by pause_job / cancel_job and the Reducto webhook
+ * while the runner holds its own copy of the job.
+ */
+function runnerFields(job: PipelineJob): Partial<PipelineJob> {
+  const { stop_requested: _stopRequested, reducto_completed: _reductoCompleted, ...fields } = job;
+  return fields;
+}
+
+/**
+ * Inserts or updates the stored copy of a job
+ */
+export async function saveJob(job: PipelineJob): Promise<void> {
+  const collection = await getJobsCollection();
+  job.updated_at = new Date().toISOString();
+  const fields = runnerFields(job);
+
+  await collection.updateOne(
+    { job_id: job.job_id },
+    { $set: fields },
+    { upsert: true }
+  );
+}
+
+/**
+ * Saves a stopped job that is being run again (or a paused job being
+ * cancelled), but only if it is still in the status it was read in.
+ * Returns false if another request got to it first.
+ */
+export async function claimJob(
+  job: PipelineJob,
+  fromStatus: PipelineJobStatus
+): Promise<boolean> {
+  const collection = await getJobsCollection();
+  job.updated_at = new Date().toISOString();
+
+  const claimed = await collection.findOneAndUpdate(
+    { job_id: job.job_id, status: fromStatus },
+    { $set: runnerFields(job) },
+    { projection: { _id: 0, job_id: 1 } }
+  );
+  return claimed !== null;
+}
+
+/**
+ * Records that Reducto's webhook reported on one of a job's Reducto jobs.
+ * Returns the job as stored afterwards, or null if it does not exist.
+ */
+export async function recordReductoCompletion(
+  jobId: string,
+  reductoJobId: string
+): Promise<PipelineJob | null> {
+  const collection = await getJobsCollection();
+
+  return await collection.findOneAndUpdate(
+    { job_id: jobId },
+    { $addToSet: { reducto_completed: reductoJobId } },
+    { returnDocument: "after", projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Pauses a job to wait for its Reducto jobs, unless the webhook has reported
+ * on one of them meanwhile. In that case the job is left running, the reports
+ * are cleared and false is returned. Checking and pausing in one update means
+ * a webhook either sees the job paused (and resumes it) or stops the pause.
+ */
+export async function pauseForReducto(
+  job: PipelineJob,
+  reductoJobIds: string[]
+): Promise<boolean> {
+  const collection = await getJobsCollection();
+  const previousStatus = job.status;
+  job.status = "paused";
+  job.updated_at = new Date().toISOString();
+
+  const paused = await collection.findOneAndUpdate(
+    { job_id: job.job_id, reducto_completed: { $nin: reductoJobIds } },
+    { $set: runnerFields(job) },
+    { projection: { _id: 0, job_id: 1 } }
+  );
+  if (paused) return true;
+
+  job.status = previousStatus;
+  await collection.updateOne(
+    { job_id: job.job_id },
+    { $pull: { reducto_completed: { $in: reductoJobIds } } }
+  );
+  return false;
+}
+
+/**
+ * Asks a running job to pause or cancel. Returns the updated job, or null if
+ * the job does not exist or is no longer running.
+ */
+export async function requestStop(
+  jobId: string,
+  request: StopRequest
+): Promise<PipelineJob | null> {
+  const collection = await getJobsCollection();
+
+  return await collection.findOneAndUpdate(
+    { job_id: jobId, status: { $nin: [...TERMINAL_STATUSES, "paused"] } },
+    { $set: { stop_requested: request } },
+    { returnDocument: "after", projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Reads a pending pause / cancel request for a job
+ */
+export async function getStopRequest(jobId: string): Promise<StopRequest | null> {
+  const collection = await getJobsCollection();
+  const job = await collection.findOne(
+    { job_id: jobId },
+    { projection: { _id: 0, stop_requested: 1 } }
+  );
+  return job?.stop_requested ?? null;
+}
+
+/**
+ * Clears a pause / cancel request once it has been honored
+ */
+export async function clearStopRequest(jobId: string): Promise<void> {
+  const collection = await getJobsCollection();
+  await collection.updateOne({ job_id: jobId }, { $unset: { stop_requested: "" } });
+}
+
+/**
+ * Loads a job by ID, or null if it does not exist
+ */
+export async function getJob(jobId: string): Promise<PipelineJob | null> {
+  const collection = await getJobsCollection();
+  return await collection.findOne(
+    { job_id: jobId },
+    { projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Lists the most recently started jobs, optionally filtered by status
+ */
+export async function listJobs(
+  options: { status?: PipelineJobStatus; limit?: number } = {}
+): Promise<PipelineJob[]> {
+  const { status, limit = 20 } = options;
+  const collection = await getJobsCollection();
+
+  return await collection
+    .find(status ? { status } : {}, { projection: { _id: 0 } })
+    .sort({ started_at: -1 })
+    .limit(limit)
+    .toArray();
+}
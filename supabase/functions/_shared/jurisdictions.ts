@@ -0,0 +1,71 @@
+// =============================================================================
+// Jurisdiction Registry
+// =============================================================================
+// Every municipality one deployment covers. A jurisdiction maps the short id
+// stored on jobs, chunks and history to its Legistar Web API client slug.
+// Add an entry here to onboard another city.
+// =============================================================================
+
+import { Jurisdiction } from "./types.ts";
+
+export const DEFAULT_JURISDICTION = "sf";
+
+const JURISDICTIONS: Jurisdiction[] = [
+  {
+    id: "sf",
+    legistar_client: "sfgov",
+    name: "San Francisco",
+    default_search_terms: [
+      "housing development",
+      "zoning amendment",
+      "environmental impact report",
+      "EIR",
+      "residential project",
+    ],
+  },
+  {
+    id: "oakland",
+    legistar_client: "oakland",
+    name: "Oakland",
+    default_search_terms: [
+      "housing",
+      "zoning",
+      "general plan amendment",
+      "environmental impact report",
+      "planning code",
+    ],
+  },
+  {
+    id: "sanjose",
+    legistar_client: "sanjose",
+    name: "San José",
+    default_search_terms: [
+      "housing",
+      "rezoning",
+      "general plan",
+      "environmental impact report",
+      "planned development",
+    ],
+  },
+];
+
+/**
+ * All registered jurisdictions
+ */
+export function listJurisdictions(): Jurisdiction[] {
+  return JURISDICTIONS;
+}
+
+/**
+ * Looks up a jurisdiction by id (default: San Francisco).
+ * Throws on an unknown id.
+ */
+export function getJurisdiction(id: string = DEFAULT_JURISDICTION): Jurisdiction {
+  const jurisdiction = JURISDICTIONS.find((j) => j.id === id);
+  if (!jurisdiction) {
+    throw new Error(
+      `Unknown jurisdiction: ${id}. Use one of: ${JURISDICTIONS.map((j) => j.id).join(", ")}`
+    );
+  }
+  return jurisdiction;
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// Legistar OData API Client
+// =============================================================================
+// Shared by discovery and history ingestion. The Legistar Web API speaks
+// OData v3: $filter / $orderby / $top / $skip, no contains().
+// Each municipality is a separate Legistar client: /v1/{client}/...
+// =============================================================================
+
+import { Jurisdiction } from "./types.ts";
+
+const ODATA_ROOT = "https://webapi.legistar.com/v1";
+
+export interface LegistarMatter {
+  MatterId: number;
+  MatterFile: string;
+  MatterName: string;
+  MatterTitle: string;
+  MatterTypeName: string;
+  MatterStatusName: string;
+  MatterIntroDate: string;
+  MatterBodyName: string;
+}
+
+export interface LegistarSponsor {
+  MatterSponsorName: string;
+  MatterSponsorSequence: number;
+}
+
+/**
+ * Quote a value as an OData string literal (quotes are escaped by doubling)
+ */
+export function odataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Order two matter versions ("1", "2", "10", ...); negative if a is older
+ */
+export function compareMatterVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * GET one jurisdiction's OData collection, e.g.
+ * fetchOData(jurisdiction, "Matters", { $top: "10" }).
+ * Throws on a non-2xx response.
+ */
+export async function fetchOData<T>(
+  jurisdiction: Jurisdiction,
+  path: string,
+  params: Record<string, string> = {}
+): Promise<T[]> {
+  const query = Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join("&");
+  const odataUrl = `${ODATA_ROOT}/${jurisdiction.legistar_client}/${path}${query ? `?${query}` : ""}`;
+
+  const response = await fetch(odataUrl);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`OData API error: ${response.status} - ${errorText}`);
+  }
+
+  const data = await response.json();
+  // Legistar API returns array directly, not wrapped in { value: [...] }
+  return Array.isArray(data) ? data : (data.value || []);
+}
@@ -0,0 +1,74 @@
+// =============================================================================
+// Shared MongoDB Client for SF Zoning Compliance Automation
+// =============================================================================
+
+import { MongoClient, ServerApiVersion, Collection, Db, Document, Filter } from "npm:mongodb@6.3.0";
+import { getRequiredEnv } from "./utils.ts";
+
+// One database holds every jurisdiction; documents carry a jurisdiction field
+export const DATABASE_NAME = Deno.env.get("MONGODB_DATABASE") || "sf_zoning";
+
+// Collection names
+export const CHUNKS_COLLECTION = "document_chunks"; // Match local script
+export const JOBS_COLLECTION = "pipeline_jobs";
+export const CHECKPOINTS_COLLECTION = "pipeline_checkpoints";
+export const CHECKPOINT_CHUNKS_COLLECTION = "pipeline_checkpoint_chunks";
+export const SOURCE_DOCUMENTS_COLLECTION = "source_documents";
+export const USAGE_LEDGER_COLLECTION = "usage_ledger";
+export const EVENTS_COLLECTION = "pipeline_events";
+export const WATCHES_COLLECTION = "pipeline_watches";
+export const CHANGE_REPORTS_COLLECTION = "change_reports";
+export const MATTER_ACTIONS_COLLECTION = "matter_actions";
+export const MATTER_RELATIONS_COLLECTION = "matter_relations";
+export const TABLES_COLLECTION = "document_tables";
+
+// MongoDB client singleton
+let cachedClient: MongoClient | null = null;
+
+/**
+ * Returns a connected MongoDB client, reusing it across invocations
+ */
+export async function getMongoClient(): Promise<MongoClient> {
+  if (cachedClient) {
+    return cachedClient;
+  }
+
+  const MONGODB_URI = getRequiredEnv("MONGODB_URI");
+
+  cachedClient = new MongoClient(MONGODB_URI, {
+    serverApi: {
+      version: ServerApiVersion.v1,
+      strict: true,
+      deprecationErrors: true,
+    },
+  });
+
+  await cachedClient.connect();
+  console.log("[mongo] Connected to MongoDB Atlas");
+
+  return cachedClient;
+}
+
+/**
+ * Returns the application database
+ */
+export async function getDatabase(): Promise<Db> {
+  const client = await getMongoClient();
+  return client.db(DATABASE_NAME);
+}
+
+/**
+ * The distinct values of a field among the documents matching filter.
+ * The distinct command is not in the Stable API (v1) the client is pinned
+ * to, so the documents are grouped by the field instead.
+ */
+export async function distinctValues<TSchema extends Document, T = unknown>(
+  collection: Collection<TSchema>,
+  field: string,
+  filter: Filter<TSchema> = {}
+): Promise<T[]> {
+  const groups = await collection
+    .aggregate<{ _id: T }>([{ $match: filter }, { $group: { _id: `$${field}` } }])
+    .toArray();
+  return groups.map((group) => group._id);
+}
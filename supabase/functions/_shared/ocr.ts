@@ -0,0 +1,121 @@
+// =============================================================================
+// OCR for Scanned Pages
+// =============================================================================
+// Recognizes text in page images for PDFs without a text layer (scanned
+// exhibits, signed resolutions). The pdf.js backend renders such pages and
+// passes them to an OcrEngine; the Tesseract engine (tesseract.js) runs
+// locally. Like the parser backends, nothing here touches Deno globals: the
+// tesseract.js module is passed in as a loader.
+// =============================================================================
+
+// A box in image pixels, origin at the top-left of the image
+export interface PixelBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrWord {
+  text: string;
+  confidence: number;  // 0-1
+  bbox: PixelBox;
+}
+
+// Words of one paragraph, line by line
+export interface OcrParagraph {
+  lines: OcrWord[][];
+}
+
+export interface OcrEngine {
+  /** Recognize the text in a PNG image, paragraph by paragraph */
+  recognize(png: Uint8Array): Promise<OcrParagraph[]>;
+  /** Release the engine's resources; recognize() starts it again */
+  terminate(): Promise<void>;
+}
+
+// The parts of tesseract.js used here
+export interface TesseractModule {
+  createWorker(
+    langs: string,
+    oem?: number,
+    options?: { langPath?: string; cachePath?: string }
+  ): Promise<TesseractWorker>;
+}
+
+interface TesseractWorker {
+  recognize(
+    image: Uint8Array,
+    options: Record<string, unknown>,
+    output: { blocks: boolean; text: boolean }
+  ): Promise<{ data: { blocks: TesseractBlock[] | null } }>;
+  terminate(): Promise<unknown>;
+}
+
+interface TesseractBlock {
+  paragraphs: Array<{
+    lines: Array<{
+      words: Array<{ text: string; confidence: number; bbox: PixelBox }>;
+    }>;
+  }>;
+}
+
+export interface TesseractOcrOptions {
+  load_tesseract: () => Promise<TesseractModule>;
+  languages?: string;  // e.g. "eng+spa" (default: "eng")
+  lang_path?: string;  // Where trained data is read from (default: tesseract.js's CDN)
+  cache_path?: string;
+}
+
+/**
+ * OCR with Tesseract. The worker starts on the first page and is reused until
+ * terminate().
+ */
+export function createTesseractOcr(options: TesseractOcrOptions): OcrEngine {
+  let worker: Promise<TesseractWorker> | null = null;
+
+  const getWorker = () => {
+    if (!worker) {
+      worker = options.load_tesseract().then((tesseract) =>
+        tesseract.createWorker(options.languages || "eng", undefined, {
+          langPath: options.lang_path,
+          cachePath: options.cache_path,
+        })
+      );
+      // Let a failed start be retried on the next page
+      worker.catch(() => {
+        worker = null;
+      });
+    }
+    return worker;
+  };
+
+  return {
+    async recognize(png: Uint8Array): Promise<OcrParagraph[]> {
+      const { data } = await (await getWorker()).recognize(png, {}, { blocks: true, text: false });
+
+      return (data.blocks || []).flatMap((block) =>
+        block.paragraphs.map((paragraph) => ({
+          lines: paragraph.lines
+            .map((line) =>
+              line.words
+                .filter((word) => word.text.trim().length > 0)
+                .map((word) => ({
+                  text: word.text.trim(),
+                  confidence: Math.round(word.confidence) / 100,
+                  bbox: word.bbox,
+                }))
+            )
+            .filter((line) => line.length > 0),
+        }))
+      ).filter((paragraph) => paragraph.lines.length > 0);
+    },
+
+    async terminate(): Promise<void> {
+      if (!worker) return;
+      const current = worker;
+      worker = null;
+      await (await current).terminate();
+    },
+  };
+}
@@ -0,0 +1,140 @@
+// =============================================================================
+// PDF Parser Backends
+// =============================================================================
+// A PdfParser turns a PDF URL into ReductoChunk[] with page numbers and
+// bounding boxes. Backends: Reducto's hosted API (reducto.ts) and a local
+// pdf.js text extractor (pdfjs.ts). Both are used by the reducto-parse Edge
+// Function and by scripts/process-pdf.ts, so this module and the backends
+// must not touch Deno globals; callers pass in keys and loaders.
+// =============================================================================
+
+import { BoundingBox, ParserBackend, ReductoChunk } from "./types.ts";
+
+export interface ParsedPdf {
+  parser: ParserBackend;
+  chunks: ReductoChunk[];
+  total_pages: number;
+  usage?: {
+    pages_processed: number;
+    credits_used: number;
+  };
+  // Set when the primary backend failed and a fallback produced the chunks
+  fallback_error?: string;
+}
+
+export interface PdfParser {
+  backend: ParserBackend;
+  /** Parse the PDF at url. Throws if it cannot be fetched or parsed. */
+  parse(url: string): Promise<ParsedPdf>;
+}
+
+// US Letter in PDF points, for chunks without a position
+export const FULL_PAGE_BBOX: BoundingBox = { left: 0, top: 0, width: 612, height: 792 };
+
+/**
+ * A parser that tries primary and, if it throws, fallback
+ */
+export function withFallback(primary: PdfParser, fallback: PdfParser): PdfParser {
+  return {
+    backend: primary.backend,
+    async parse(url: string): Promise<ParsedPdf> {
+      try {
+        return await primary.parse(url);
+      } catch (error) {
+        const message = (error as Error).message;
+        console.warn(`[parser] ${primary.backend} failed, falling back to ${fallback.backend}: ${message}`);
+        return { ...(await fallback.parse(url)), fallback_error: message };
+      }
+    },
+  };
+}
+
+/**
+ * A chunk with cleaned text and section / table metadata detected from it
+ */
+export function createChunk(
+  content: string,
+  index: number,
+  pageNumber: number,
+  bbox: BoundingBox = FULL_PAGE_BBOX,
+  isTable = false
+): ReductoChunk {
+  return {
+    text: cleanText(content),
+    page_number: pageNumber,
+    bbox,
+    chunk_index: index,
+    metadata: {
+      section: detectSection(content),
+      table_detected: isTable || detectTableContent(content),
+    },
+  };
+}
+
+/**
+ * The smallest box containing every box, rounded to 0.01pt. Boxes use
+ * PDFViewer's convention: top is the lower edge, measured from the bottom.
+ */
+export function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const left = Math.min(...boxes.map((box) => box.left));
+  const bottom = Math.min(...boxes.map((box) => box.top));
+  const right = Math.max(...boxes.map((box) => box.left + box.width));
+  const top = Math.max(...boxes.map((box) => box.top + box.height));
+  return { left: round(left), top: round(bottom), width: round(right - left), height: round(top - bottom) };
+}
+
+export function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Detect section headers from content
+ */
+export function detectSection(content: string): string | undefined {
+  // Common EIR section patterns
+  const sectionPatterns = [
+    { pattern: /(?:SECTION|CHAPTER)\s*(\d+[.\d]*)\s*[-:.]?\s*(.+)/i, group: 2 },
+    { pattern: /^(\d+[.\d]*)\s+([A-Z][A-Z\s]+)$/m, group: 2 },
+    { pattern: /^(EXECUTIVE SUMMARY|INTRODUCTION|BACKGROUND|ENVIRONMENTAL SETTING)/im, group: 1 },
+    { pattern: /^(NOISE|WIND|SHADOW|TRANSPORTATION|AIR QUALITY|AESTHETICS)/im, group: 1 },
+    { pattern: /^(GEOTECHNICAL|HAZARDS|HYDROLOGY|UTILITIES)/im, group: 1 },
+    { pattern: /^(ALTERNATIVES|MITIGATION|CUMULATIVE IMPACTS)/im, group: 1 },
+    { pattern: /^(RTO-C|RESIDENTIAL|ZONING|LAND USE)/im, group: 1 },
+  ];
+
+  for (const { pattern, group } of sectionPatterns) {
+    const match = content.match(pattern);
+    if (match && match[group]) {
+      return match[group].trim();
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Detect if content contains table data
+ */
+export function detectTableContent(content: string): boolean {
+  const tableIndicators = [
+    /\|.*\|.*\|/,           // Pipe-delimited
+    /\t.*\t.*\t/,           // Tab-delimited
+    /^\s*\d+\s+\d+\s+\d+/m, // Numeric columns
+    /dB[A]?\s*$/m,          // Decibel measurements (noise studies)
+    /mph\s*$/m,             // Wind speed measurements
+    /feet\s+\d+/i,          // Distance measurements
+  ];
+
+  return tableIndicators.some((pattern) => pattern.test(content));
+}
+
+/**
+ * Clean and normalize text content
+ */
+export function cleanText(content: string): string {
+  return content
+    .replace(/\s+/g, " ")
+    .replace(/Page\s+\d+\s+of\s+\d+/gi, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
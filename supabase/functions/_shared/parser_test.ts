@@ -0,0 +1,56 @@
+// =============================================================================
+// Parser Backend Selection Tests
+// =============================================================================
+// withFallback with a stub primary backend and the pdf.js backend reading
+// the testdata fixture. Run with: deno test --allow-read supabase/functions
+// =============================================================================
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { ParsedPdf, PdfParser, withFallback } from "./parser.ts";
+import { createFixtureParser, FIXTURE_URL } from "./testdata/fixtures.ts";
+
+function stubParser(parse: (url: string) => Promise<ParsedPdf>): PdfParser & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    backend: "reducto",
+    calls,
+    parse(url: string) {
+      calls.push(url);
+      return parse(url);
+    },
+  };
+}
+
+Deno.test("withFallback keeps the primary backend's result", async () => {
+  const primary = stubParser(() =>
+    Promise.resolve({ parser: "reducto", chunks: [], total_pages: 3, usage: { pages_processed: 3, credits_used: 3 } })
+  );
+  const fallback = stubParser(() => Promise.reject(new Error("fallback should not run")));
+
+  const parsed = await withFallback(primary, fallback).parse(FIXTURE_URL);
+
+  assertEquals(parsed.parser, "reducto");
+  assertEquals(parsed.fallback_error, undefined);
+  assertEquals(primary.calls, [FIXTURE_URL]);
+  assertEquals(fallback.calls, []);
+});
+
+Deno.test("withFallback parses with pdf.js when the primary backend fails", async () => {
+  const primary = stubParser(() => Promise.reject(new Error("Reducto API error: 402 - out of credits")));
+
+  const parser = withFallback(primary, createFixtureParser());
+  const parsed = await parser.parse(FIXTURE_URL);
+
+  assertEquals(parser.backend, "reducto");
+  assertEquals(parsed.parser, "pdfjs");
+  assertEquals(parsed.fallback_error, "Reducto API error: 402 - out of credits");
+  assertEquals(parsed.chunks.length, 5);
+  assertEquals(parsed.chunks[0].text, "4.2 Noise");
+});
+
+Deno.test("withFallback reports the fallback's error when both backends fail", async () => {
+  const primary = stubParser(() => Promise.reject(new Error("Reducto timeout")));
+  const fallback = stubParser(() => Promise.reject(new Error("Download failed: 404 Not Found")));
+
+  await assertRejects(() => withFallback(primary, fallback).parse(FIXTURE_URL), Error, "Download failed");
+});
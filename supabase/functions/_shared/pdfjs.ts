@@ -0,0 +1,427 @@
+// =============================================================================
+// Local pdf.js Parser Backend
+// =============================================================================
+// Extracts the text layer with pdf.js (pdfjs-dist), without any external
+// service. Text runs on one baseline form a line; lines close together and
+// set in the same size form a block, and each block becomes a chunk with its
+// page number and bounding box. Consecutive lines whose text runs fall into
+// columns are kept as a table, its cells with their own boxes. Boxes are in PDF points with the origin at
+// the bottom-left of the page (top is the box's lower edge), as PDFViewer
+// draws them.
+// Pages with (almost) no text layer are scans: with OCR configured they are
+// rendered to an image and read by the OCR engine, one chunk per paragraph
+// with word-level boxes and the mean word confidence; without it they yield
+// no chunks. The pdf.js and canvas modules are passed in as loaders, since
+// Deno and Node import them differently.
+// =============================================================================
+
+import { BoundingBox, ChunkWord, ParsedTable, ReductoChunk } from "./types.ts";
+import { PdfParser, ParsedPdf, createChunk, round, unionBox } from "./parser.ts";
+import { OcrEngine, OcrWord, PixelBox } from "./ocr.ts";
+import { PositionedCell, buildTable, createTableChunk } from "./tables.ts";
+
+// The parts of pdf.js used here
+export interface PdfjsModule {
+  getDocument(params: {
+    data: Uint8Array;
+    isEvalSupported?: boolean;
+    disableFontFace?: boolean;
+    useSystemFonts?: boolean;
+    CanvasFactory?: unknown;
+  }): { promise: Promise<PdfjsDocument> };
+}
+
+interface PdfjsDocument {
+  numPages: number;
+  getPage(pageNumber: number): Promise<PdfjsPage>;
+  destroy(): Promise<void>;
+}
+
+interface PdfjsPage {
+  getTextContent(): Promise<{ items: Array<PdfjsTextItem | { type: string }> }>;
+  getViewport(params: { scale: number }): PdfjsViewport;
+  render(params: { canvasContext: unknown; viewport: PdfjsViewport }): { promise: Promise<void> };
+  cleanup(): void;
+}
+
+interface PdfjsViewport {
+  width: number;
+  height: number;
+  convertToPdfPoint(x: number, y: number): number[];
+}
+
+interface PdfjsTextItem {
+  str: string;
+  transform: number[];  // [a, b, c, d, x, y]; (x, y) is the baseline start
+  width: number;
+  height: number;
+}
+
+export type PdfjsLoader = () => Promise<PdfjsModule>;
+
+// A canvas pdf.js can draw on, e.g. from @napi-rs/canvas
+export interface PdfjsCanvas {
+  width: number;
+  height: number;
+  getContext(type: "2d"): unknown;
+  toBuffer(mimeType: "image/png"): Uint8Array;
+}
+
+export interface PdfjsCanvasModule {
+  createCanvas(width: number, height: number): PdfjsCanvas;
+}
+
+export interface PdfjsOcrOptions {
+  engine: OcrEngine;
+  load_canvas: () => Promise<PdfjsCanvasModule>;
+  scale?: number;  // Render scale; 1 = 72 dpi (default: 3)
+}
+
+export interface PdfjsParserOptions {
+  load_pdfjs: PdfjsLoader;
+  // Reads the PDF's bytes (default: fetch, which in Deno also reads file:// URLs)
+  fetch_pdf?: (url: string) => Promise<Uint8Array>;
+  ocr?: PdfjsOcrOptions;  // Read scanned pages (default: skip them)
+}
+
+interface TextLine {
+  text: string;
+  bbox: BoundingBox;
+  font_size: number;
+  cells: PositionedCell[];  // The line's text split at column gaps
+}
+
+// Lines of a page between tables, or one table
+type PageSegment = { lines: TextLine[]; table?: never } | { table: ParsedTable; lines?: never };
+
+// Runs whose baselines differ by less than this share a line (x font size)
+const SAME_LINE_TOLERANCE = 0.5;
+// A horizontal gap wider than this separates columns within a line (x font size)
+const COLUMN_GAP = 2;
+// Lines further apart than this start a new block (x font size)
+const BLOCK_GAP = 1.8;
+// Lines whose font sizes differ by more than this ratio start a new block
+const FONT_SIZE_RATIO = 1.3;
+// Table rows are at most this far apart (x font size)
+const TABLE_ROW_GAP = 2.5;
+// A table has at least this many lines with more than one cell
+const MIN_TABLE_ROWS = 3;
+// Cells longer than this on average are columns of prose, not a table
+const MAX_MEAN_CELL_CHARS = 40;
+// Pages with less text than this are treated as scans (stamps, page numbers)
+const MIN_PAGE_TEXT_CHARS = 20;
+const DEFAULT_OCR_SCALE = 3;
+
+/**
+ * Parses locally with pdf.js. Throws if the PDF cannot be fetched or read.
+ */
+export function createPdfjsParser(options: PdfjsParserOptions): PdfParser {
+  const fetchPdf = options.fetch_pdf || fetchPdfBytes;
+  const ocr = options.ocr;
+
+  return {
+    backend: "pdfjs",
+    async parse(url: string): Promise<ParsedPdf> {
+      const [pdfjs, data] = await Promise.all([options.load_pdfjs(), fetchPdf(url)]);
+      // Set before the first page is rendered; pdf.js creates its scratch canvases with it
+      let canvasModule: PdfjsCanvasModule | null = null;
+      const document = await pdfjs.getDocument({
+        data,
+        isEvalSupported: false,
+        disableFontFace: true,
+        useSystemFonts: false,
+        CanvasFactory: ocr ? canvasFactoryFor((width, height) => canvasModule!.createCanvas(width, height)) : undefined,
+      }).promise;
+
+      const chunks: ReductoChunk[] = [];
+      let scannedPages = 0;
+      try {
+        for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+          const page = await document.getPage(pageNumber);
+          const content = await page.getTextContent();
+          const textItems = content.items.filter(
+            (item): item is PdfjsTextItem => "str" in item && item.str.trim().length > 0
+          );
+          const textLength = textItems.reduce((total, item) => total + item.str.trim().length, 0);
+
+          if (ocr && textLength < MIN_PAGE_TEXT_CHARS) {
+            canvasModule = canvasModule || await ocr.load_canvas();
+            const png = await renderPage(page, ocr.scale || DEFAULT_OCR_SCALE, canvasModule.createCanvas);
+            const paragraphs = await ocr.engine.recognize(png);
+            const viewport = page.getViewport({ scale: ocr.scale || DEFAULT_OCR_SCALE });
+
+            for (const paragraph of paragraphs) {
+              chunks.push(createOcrChunk(paragraph.lines, chunks.length, pageNumber, viewport));
+            }
+            scannedPages++;
+          } else {
+            for (const segment of splitTables(groupLines(textItems))) {
+              if (segment.table) {
+                chunks.push(createTableChunk(segment.table, chunks.length, pageNumber));
+                continue;
+              }
+              for (const block of groupBlocks(segment.lines)) {
+                const text = block.map((line) => line.text).join("\n");
+                chunks.push(createChunk(text, chunks.length, pageNumber, unionBox(block.map((line) => line.bbox))));
+              }
+            }
+          }
+          page.cleanup();
+        }
+      } finally {
+        await document.destroy();
+        if (scannedPages > 0) {
+          await ocr!.engine.terminate();
+        }
+      }
+
+      console.log(
+        `[pdfjs] Extracted ${chunks.length} blocks from ${document.numPages} pages` +
+        (scannedPages > 0 ? ` (${scannedPages} read with OCR)` : "")
+      );
+
+      return {
+        parser: "pdfjs",
+        chunks,
+        total_pages: document.numPages,
+        usage: { pages_processed: document.numPages, credits_used: 0 },
+      };
+    },
+  };
+}
+
+async function fetchPdfBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * A page drawn as a PNG at the given scale
+ */
+async function renderPage(
+  page: PdfjsPage,
+  scale: number,
+  createCanvas: (width: number, height: number) => PdfjsCanvas
+): Promise<Uint8Array> {
+  const viewport = page.getViewport({ scale });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  await page.render({ canvasContext: canvas.getContext("2d"), viewport }).promise;
+  return canvas.toBuffer("image/png");
+}
+
+/**
+ * A chunk for one OCR paragraph, with its words' boxes converted to PDF points
+ */
+function createOcrChunk(
+  lines: OcrWord[][],
+  index: number,
+  pageNumber: number,
+  viewport: PdfjsViewport
+): ReductoChunk {
+  const words: ChunkWord[] = lines.flat().map((word) => ({
+    text: word.text,
+    bbox: toPdfBox(word.bbox, viewport),
+    confidence: word.confidence,
+  }));
+  const text = lines.map((line) => line.map((word) => word.text).join(" ")).join("\n");
+  const confidence = words.reduce((total, word) => total + word.confidence, 0) / words.length;
+
+  const chunk = createChunk(text, index, pageNumber, unionBox(words.map((word) => word.bbox)));
+  return {
+    ...chunk,
+    words,
+    metadata: { ...chunk.metadata, confidence: Math.round(confidence * 100) / 100, ocr: true },
+  };
+}
+
+/**
+ * A box in rendered-image pixels as a box in PDF points (bottom-left origin)
+ */
+function toPdfBox(box: PixelBox, viewport: PdfjsViewport): BoundingBox {
+  const [x0, y0] = viewport.convertToPdfPoint(box.x0, box.y1);
+  const [x1, y1] = viewport.convertToPdfPoint(box.x1, box.y0);
+  return {
+    left: round(Math.min(x0, x1)),
+    top: round(Math.min(y0, y1)),
+    width: round(Math.abs(x1 - x0)),
+    height: round(Math.abs(y1 - y0)),
+  };
+}
+
+/**
+ * A pdf.js CanvasFactory drawing on canvases from createCanvas. pdf.js's own
+ * factory for Node needs a newer Node and does not work in Deno.
+ */
+function canvasFactoryFor(createCanvas: (width: number, height: number) => PdfjsCanvas) {
+  return class {
+    create(width: number, height: number) {
+      const canvas = createCanvas(width, height);
+      return { canvas, context: canvas.getContext("2d") };
+    }
+
+    reset(canvasAndContext: { canvas: PdfjsCanvas }, width: number, height: number) {
+      canvasAndContext.canvas.width = width;
+      canvasAndContext.canvas.height = height;
+    }
+
+    destroy(canvasAndContext: { canvas: PdfjsCanvas | null; context: unknown }) {
+      if (canvasAndContext.canvas) {
+        canvasAndContext.canvas.width = 0;
+        canvasAndContext.canvas.height = 0;
+      }
+      canvasAndContext.canvas = null;
+      canvasAndContext.context = null;
+    }
+  };
+}
+
+/**
+ * Text runs grouped into lines, top of the page first. Runs on a line are
+ * joined left to right; a wide gap becomes a tab and starts a new cell, so
+ * table rows keep their columns.
+ */
+function groupLines(items: PdfjsTextItem[]): TextLine[] {
+  const runs = items
+    .map((item) => {
+      const fontSize = item.height || Math.hypot(item.transform[2], item.transform[3]) || 1;
+      return { text: item.str, x: item.transform[4], y: item.transform[5], width: item.width, fontSize };
+    })
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: Array<typeof runs> = [];
+  for (const run of runs) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - run.y) <= SAME_LINE_TOLERANCE * Math.max(line[0].fontSize, run.fontSize)) {
+      line.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+
+  return lines.map((line) => {
+    line.sort((a, b) => a.x - b.x);
+    let text = "";
+    let right = line[0].x;
+    const cellRuns: Array<typeof runs> = [];
+
+    for (const run of line) {
+      const gap = run.x - right;
+      const newCell = gap > COLUMN_GAP * run.fontSize;
+      if (text) {
+        text += newCell ? "\t" : gap > 0.15 * run.fontSize ? " " : "";
+      }
+      if (newCell || cellRuns.length === 0) cellRuns.push([]);
+      cellRuns[cellRuns.length - 1].push(run);
+      text += run.text;
+      right = Math.max(right, run.x + run.width);
+    }
+
+    const fontSize = Math.max(...line.map((run) => run.fontSize));
+    const cells = cellRuns
+      .map((cell) => ({
+        text: cell.map((run) => run.text).join(" ").replace(/\s+/g, " ").trim(),
+        bbox: runsBox(cell),
+      }))
+      .filter((cell) => cell.text.length > 0);
+
+    return {
+      text: text.trim(),
+      bbox: runsBox(line),
+      font_size: fontSize,
+      cells,
+    };
+  });
+}
+
+function runsBox(runs: Array<{ x: number; y: number; width: number; fontSize: number }>): BoundingBox {
+  const left = Math.min(...runs.map((run) => run.x));
+  const right = Math.max(...runs.map((run) => run.x + run.width));
+  return {
+    left,
+    top: Math.min(...runs.map((run) => run.y)),
+    width: right - left,
+    height: Math.max(...runs.map((run) => run.fontSize)),
+  };
+}
+
+/**
+ * A page's lines with their tables taken out: runs of close lines split into
+ * cells, mostly, with single-cell lines (wrapped cell text) allowed between them
+ */
+function splitTables(lines: TextLine[]): PageSegment[] {
+  const segments: PageSegment[] = [];
+  let text: TextLine[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    let end = i;
+    let lastMultiCell = -1;
+    while (end < lines.length) {
+      const line = lines[end];
+      const previous = lines[end - 1];
+      if (end > i && previous.bbox.top - line.bbox.top > TABLE_ROW_GAP * previous.font_size) break;
+      if (line.cells.length > 1) {
+        lastMultiCell = end;
+      } else if (end === i) {
+        break;
+      }
+      end++;
+    }
+
+    const rows = lines.slice(i, lastMultiCell + 1);
+    const multiCell = rows.filter((line) => line.cells.length > 1).length;
+    const table = multiCell >= MIN_TABLE_ROWS && multiCell * 2 >= rows.length && !isProse(rows)
+      ? buildTable(rows.map((line) => line.cells))
+      : null;
+
+    if (table) {
+      if (text.length > 0) segments.push({ lines: text });
+      segments.push({ table });
+      text = [];
+      i = lastMultiCell + 1;
+    } else {
+      text.push(lines[i]);
+      i++;
+    }
+  }
+  if (text.length > 0) segments.push({ lines: text });
+
+  return segments;
+}
+
+// Side-by-side columns of running text also split into cells
+function isProse(lines: TextLine[]): boolean {
+  const cells = lines.flatMap((line) => line.cells);
+  return cells.reduce((total, cell) => total + cell.text.length, 0) / cells.length > MAX_MEAN_CELL_CHARS;
+}
+
+/**
+ * Consecutive lines grouped into blocks: a new block starts at a wide
+ * vertical gap or a change of font size (e.g. after a heading)
+ */
+function groupBlocks(lines: TextLine[]): TextLine[][] {
+  const blocks: TextLine[][] = [];
+
+  for (const line of lines) {
+    const block = blocks[blocks.length - 1];
+    const previous = block?.[block.length - 1];
+    const sizeRatio = previous
+      ? Math.max(previous.font_size, line.font_size) / Math.min(previous.font_size, line.font_size)
+      : Infinity;
+
+    if (
+      previous &&
+      previous.bbox.top - line.bbox.top <= BLOCK_GAP * previous.font_size &&
+      sizeRatio <= FONT_SIZE_RATIO
+    ) {
+      block.push(line);
+    } else {
+      blocks.push([line]);
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,55 @@
+// =============================================================================
+// pdf.js Parser Tests
+// =============================================================================
+// Offline: the parser reads testdata/noise-table.pdf from disk.
+// Run with: deno test --allow-read supabase/functions
+// =============================================================================
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createFixtureParser, FIXTURE_URL } from "./testdata/fixtures.ts";
+
+Deno.test("pdfjs parser splits a page into blocks with boxes", async () => {
+  const parsed = await createFixtureParser().parse(FIXTURE_URL);
+
+  assertEquals(parsed.parser, "pdfjs");
+  assertEquals(parsed.total_pages, 1);
+  assertEquals(parsed.usage, { pages_processed: 1, credits_used: 0 });
+  assertEquals(parsed.chunks.map((chunk) => chunk.chunk_index), [0, 1, 2, 3, 4]);
+  assert(parsed.chunks.every((chunk) => chunk.page_number === 1));
+
+  const [heading, paragraph, caption] = parsed.chunks;
+  assertEquals(heading.text, "4.2 Noise");
+  assertEquals(heading.bbox, { left: 72, top: 720, width: 61.47, height: 14 });
+
+  // Consecutive lines of one size join into one block, top line first
+  assertEquals(
+    paragraph.text,
+    "The project site is near Market Street. Ambient noise was measured at four locations " +
+      "over a 24-hour period in March 2023, as summarized in the table below."
+  );
+  assertEquals(paragraph.bbox.top, 676);
+  assertEquals(paragraph.bbox.height, 24);
+  assertEquals(caption.text, "Table 4.2-1 Measured Noise Levels");
+});
+
+Deno.test("pdfjs parser keeps column-aligned lines as a table", async () => {
+  const parsed = await createFixtureParser().parse(FIXTURE_URL);
+  const tableChunk = parsed.chunks[3];
+  const table = tableChunk.table!;
+
+  assert(tableChunk.metadata.table_detected);
+  assertEquals([table.rows, table.columns, table.header_rows], [5, 4, 1]);
+  assertEquals(
+    tableChunk.text.split("\n")[0],
+    "Location | Leq (dBA) | Ldn (dBA) | Land Use"
+  );
+
+  const cell = table.cells.find((cell) => cell.row === 2 && cell.column === 2)!;
+  assertEquals(cell.text, "74.0");
+  assertEquals(cell.header, false);
+  assert(table.cells.filter((cell) => cell.row === 0).every((cell) => cell.header));
+
+  // Prose after the table is a block of its own again
+  assert(parsed.chunks[4].text.startsWith("Noise levels along Van Ness Avenue"));
+  assertEquals(parsed.chunks[4].table, undefined);
+});
@@ -0,0 +1,299 @@
+// =============================================================================
+// Reducto Parser Backend
+// =============================================================================
+// Layout-aware parsing through Reducto's hosted API. Parses run as async
+// jobs: /parse_async submits one and /job/{id} reports on it, so a large EIR
+// that takes minutes never holds a request open. parse() submits and polls;
+// submit() and check() let a caller keep the job id and check back later
+// (optionally on Reducto's webhook). Job checks are retried on errors; a
+// submit only when Reducto cannot have accepted it. Reducto has answered in several shapes
+// over time (result.chunks[].blocks[], result.blocks[], top-level chunks, or
+// plain markdown/text); all of them are turned into ReductoChunk[] here.
+// Table blocks come as HTML or Markdown and are kept as structured tables
+// (see tables.ts).
+// =============================================================================
+
+import { BoundingBox, ReductoChunk } from "./types.ts";
+import { retryWithBackoff } from "./utils.ts";
+import { PdfParser, ParsedPdf, createChunk, FULL_PAGE_BBOX } from "./parser.ts";
+import { createTableChunk, tableFromMarkup } from "./tables.ts";
+
+const REDUCTO_API_URL = "https://platform.reducto.ai";
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 15 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5 * 1000;
+
+export interface ReductoParserOptions {
+  api_key: string;
+  timeout_ms?: number;        // How long parse() waits for its job (default: 15 minutes)
+  poll_interval_ms?: number;  // Between job checks in parse() (default: 5 seconds)
+}
+
+// A submitted job as Reducto last reported it
+export type ReductoJob =
+  | { status: "pending" }
+  | { status: "completed"; parsed: ParsedPdf }
+  | { status: "failed"; error: string };
+
+export interface ReductoParser extends PdfParser {
+  /** Submit the PDF at url for parsing; returns Reducto's job id */
+  submit(url: string, webhookUrl?: string): Promise<string>;
+  /** The job's status, with the parsed PDF once it has completed */
+  check(jobId: string): Promise<ReductoJob>;
+}
+
+interface ReductoBlock {
+  type: string;
+  content: string;
+  text?: string;
+  bbox?: BoundingBox & { page: number };
+}
+
+// GET /job/{id}
+interface ReductoJobResponse {
+  status: string;  // "Pending", "Idle", "Completed" or "Failed"
+  result?: ReductoParseResponse;
+  reason?: string;
+}
+
+// Reducto response structure (flexible to handle different formats)
+interface ReductoParseResponse {
+  job_id: string;
+  status: string;
+  usage?: {
+    pages_processed: number;
+    credits_used: number;
+  };
+  result?: {
+    chunks?: Array<{
+      content: string;
+      blocks?: ReductoBlock[];
+    }>;
+    // Alternative format: direct blocks array
+    blocks?: ReductoBlock[];
+    // Alternative: markdown or text output
+    markdown?: string;
+    text?: string;
+  };
+  // Some pipelines return data at top level
+  chunks?: Array<Record<string, unknown>>;
+  blocks?: Array<Record<string, unknown>>;
+  markdown?: string;
+  text?: string;
+  studio_link?: string;
+  error?: string;
+}
+
+/**
+ * Parses with Reducto. Throws on API errors, including exhausted credits.
+ */
+export function createReductoParser(options: ReductoParserOptions): ReductoParser {
+  const timeoutMs = options.timeout_ms || DEFAULT_TIMEOUT_MS;
+  const pollIntervalMs = options.poll_interval_ms || DEFAULT_POLL_INTERVAL_MS;
+  const request = <T>(path: string, init: RequestInit = {}, shouldRetry?: (error: Error) => boolean) =>
+    reductoRequest<T>(options.api_key, path, init, shouldRetry);
+
+  const parser: ReductoParser = {
+    backend: "reducto",
+
+    async parse(url: string): Promise<ParsedPdf> {
+      const jobId = await parser.submit(url);
+      const deadline = Date.now() + timeoutMs;
+
+      while (true) {
+        const job = await parser.check(jobId);
+        if (job.status === "completed") return job.parsed;
+        if (job.status === "failed") throw new Error(job.error);
+
+        if (Date.now() + pollIntervalMs > deadline) {
+          throw new Error(`Reducto job ${jobId} did not finish within ${timeoutMs / 1000}s`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      }
+    },
+
+    async submit(url: string, webhookUrl?: string): Promise<string> {
+      // A retried submit that Reducto had already accepted would be a second, billed job
+      const response = await request<{ job_id: string }>("/parse_async", {
+        method: "POST",
+        body: JSON.stringify({
+          document_url: url,
+          ...(webhookUrl ? { async: { webhook: { mode: "direct", url: webhookUrl } } } : {}),
+        }),
+      }, neverReachedReducto);
+
+      if (!response.job_id) {
+        throw new Error("Reducto did not return a job_id");
+      }
+      console.log(`[reducto] Submitted job ${response.job_id} for ${url}`);
+      return response.job_id;
+    },
+
+    async check(jobId: string): Promise<ReductoJob> {
+      const job = await request<ReductoJobResponse>(`/job/${encodeURIComponent(jobId)}`, { method: "GET" });
+      const status = (job.status || "").toLowerCase();
+
+      if (status === "failed" || job.result?.error) {
+        return { status: "failed", error: `Reducto job ${jobId} failed: ${job.reason || job.result?.error || "unknown reason"}` };
+      }
+      if (status !== "completed" || !job.result) {
+        return { status: "pending" };
+      }
+
+      const response = job.result;
+      if (response.studio_link) {
+        console.log(`[reducto] Studio link: ${response.studio_link}`);
+      }
+
+      const chunks = transformParseResponse(response);
+
+      return {
+        status: "completed",
+        parsed: {
+          parser: "reducto",
+          chunks,
+          total_pages: response.usage?.pages_processed || Math.max(...chunks.map((c) => c.page_number), 1),
+          usage: response.usage,
+        },
+      };
+    },
+  };
+
+  return parser;
+}
+
+/**
+ * One call to Reducto's API, retried with backoff (only the errors
+ * shouldRetry accepts, if given). Throws on API errors.
+ */
+async function reductoRequest<T>(
+  apiKey: string,
+  path: string,
+  init: RequestInit,
+  shouldRetry?: (error: Error) => boolean
+): Promise<T> {
+  return await retryWithBackoff(async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+    try {
+      const apiResponse = await fetch(`${REDUCTO_API_URL}${path}`, {
+        ...init,
+        headers: {
+          "Authorization": `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        signal: controller.signal,
+      });
+
+      if (!apiResponse.ok) {
+        const errorText = await apiResponse.text();
+        throw Object.assign(
+          new Error(`Reducto API error: ${apiResponse.status} - ${errorText}`),
+          { status: apiResponse.status }
+        );
+      }
+
+      return await apiResponse.json() as T;
+    } catch (error) {
+      if ((error as Error).name === "AbortError") {
+        throw new Error(`Reducto API request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }, 3, 1000, shouldRetry);
+}
+
+/**
+ * True if a request cannot have been acted on: Reducto turned it away as
+ * rate-limited, or no connection was made. A timeout or 5xx may come after
+ * the request was accepted.
+ */
+function neverReachedReducto(error: Error): boolean {
+  const status = (error as Error & { status?: number }).status;
+  if (status !== undefined) return status === 429;
+  return error instanceof TypeError && /connect|dns|resolve/i.test(error.message);
+}
+
+/**
+ * Transform a Reducto response to our standardized chunk format
+ * Handles multiple possible response formats
+ */
+function transformParseResponse(response: ReductoParseResponse): ReductoChunk[] {
+  const chunks: ReductoChunk[] = [];
+  let chunkIndex = 0;
+
+  // Try different response formats
+
+  // Format 1: result.chunks[].blocks[]
+  if (response.result?.chunks && response.result.chunks.length > 0) {
+    console.log(`[reducto] Using format: result.chunks`);
+    for (const chunk of response.result.chunks) {
+      for (const block of chunk.blocks || []) {
+        chunks.push(createChunkFromBlock(block, chunkIndex++));
+      }
+      // Include chunk content if no blocks
+      if (chunk.content && (!chunk.blocks || chunk.blocks.length === 0)) {
+        chunks.push(createChunk(chunk.content, chunkIndex++, 1));
+      }
+    }
+  }
+
+  // Format 2: result.blocks[] (direct blocks array)
+  else if (response.result?.blocks && response.result.blocks.length > 0) {
+    console.log(`[reducto] Using format: result.blocks`);
+    for (const block of response.result.blocks) {
+      chunks.push(createChunkFromBlock(block, chunkIndex++));
+    }
+  }
+
+  // Format 3: Top-level chunks or blocks
+  else if (response.chunks && Array.isArray(response.chunks)) {
+    console.log(`[reducto] Using format: top-level chunks`);
+    for (const chunk of response.chunks) {
+      const text = chunk.content || chunk.text || JSON.stringify(chunk);
+      chunks.push(createChunk(String(text), chunkIndex++, 1));
+    }
+  }
+
+  // Format 4: Markdown or text output
+  else if (response.result?.markdown || response.result?.text || response.markdown || response.text) {
+    const text = response.result?.markdown || response.result?.text || response.markdown || response.text || "";
+    console.log(`[reducto] Using format: markdown/text (${text.length} chars)`);
+    // Split into reasonable chunks
+    const paragraphs = text.split(/\n\n+/);
+    for (const para of paragraphs) {
+      if (para.trim().length > 10) {
+        chunks.push(createChunk(para.trim(), chunkIndex++, 1));
+      }
+    }
+  }
+
+  else {
+    console.warn(`[reducto] No recognized data format in response`);
+  }
+
+  return chunks;
+}
+
+function createChunkFromBlock(block: ReductoBlock, index: number): ReductoChunk {
+  const bboxData = block.bbox;
+  const bbox: BoundingBox = bboxData
+    ? {
+        left: bboxData.left || 0,
+        top: bboxData.top || 0,
+        width: bboxData.width || FULL_PAGE_BBOX.width,
+        height: bboxData.height || FULL_PAGE_BBOX.height,
+      }
+    : FULL_PAGE_BBOX;
+
+  const content = String(block.content || block.text || "");
+  const isTable = block.type?.toLowerCase() === "table";
+  const table = isTable ? tableFromMarkup(content, bbox) : null;
+  if (table) {
+    return createTableChunk(table, index, bboxData?.page || 1);
+  }
+  return createChunk(content, index, bboxData?.page || 1, bbox, isTable);
+}
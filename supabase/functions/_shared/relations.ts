@@ -0,0 +1,141 @@
+// =============================================================================
+// Related-Matter Graph
+// =============================================================================
+// Edges between Board files, e.g. companion legislation 250700 <-> 250701.
+// They come from Legistar's related-matter data (legistar-history) and from
+// "File No. XXXXXX" references in parsed text (the pipeline's parse stage).
+// Each relation is stored in both directions, keyed by jurisdiction, both
+// file numbers and source, so a file's neighbours are one indexed query.
+// =============================================================================
+
+import { MatterRelation, RelatedFile } from "./types.ts";
+import { getDatabase, distinctValues, MATTER_RELATIONS_COLLECTION } from "./mongo.ts";
+import { DEFAULT_JURISDICTION } from "./jurisdictions.ts";
+
+// Graph walks stop here however deep the caller asks
+const MAX_DEPTH = 3;
+
+const FILE_REFERENCE_PATTERN = /\bFile\s+(?:No\.?|Number|#)\s*(\d{6})\b/gi;
+
+async function getRelationsCollection() {
+  const db = await getDatabase();
+  return db.collection<MatterRelation>(MATTER_RELATIONS_COLLECTION);
+}
+
+/**
+ * File numbers referenced as "File No. XXXXXX" in some text, in order of
+ * first appearance
+ */
+export function extractFileReferences(text: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(FILE_REFERENCE_PATTERN)) {
+    found.add(match[1]);
+  }
+  return [...found];
+}
+
+/**
+ * Inserts or refreshes relations together with their reverse edges.
+ * Self-references are dropped. Returns the number of edges written.
+ */
+export async function saveRelations(relations: MatterRelation[]): Promise<number> {
+  const edges = relations
+    .filter((relation) => relation.file_number !== relation.related_file_number)
+    .flatMap((relation) => [
+      relation,
+      {
+        ...relation,
+        file_number: relation.related_file_number,
+        related_file_number: relation.file_number,
+        matter_id: relation.related_matter_id,
+        related_matter_id: relation.matter_id,
+      },
+    ]);
+  if (edges.length === 0) return 0;
+
+  const collection = await getRelationsCollection();
+  const result = await collection.bulkWrite(
+    edges.map((edge) => ({
+      updateOne: {
+        filter: {
+          jurisdiction: edge.jurisdiction,
+          file_number: edge.file_number,
+          related_file_number: edge.related_file_number,
+          source: edge.source,
+        },
+        update: { $set: edge },
+        upsert: true,
+      },
+    }))
+  );
+
+  return result.upsertedCount + result.modifiedCount;
+}
+
+/**
+ * Files related to one file, nearest first. depth 1 returns direct
+ * neighbours, depth 2 also their neighbours, and so on (at most 3).
+ */
+export async function getRelatedFiles(
+  fileNumber: string,
+  options: { jurisdiction?: string; depth?: number } = {}
+): Promise<RelatedFile[]> {
+  const jurisdiction = options.jurisdiction || DEFAULT_JURISDICTION;
+  const depth = Math.min(Math.max(1, options.depth || 1), MAX_DEPTH);
+  const collection = await getRelationsCollection();
+
+  const related = new Map<string, RelatedFile>();
+  let frontier = [fileNumber];
+
+  for (let level = 1; level <= depth && frontier.length > 0; level++) {
+    const edges = await collection
+      .find({ jurisdiction, file_number: { $in: frontier } }, { projection: { _id: 0 } })
+      .sort({ file_number: 1, related_file_number: 1 })
+      .toArray();
+    const next: string[] = [];
+
+    for (const edge of edges) {
+      if (edge.related_file_number === fileNumber) continue;
+
+      const existing = related.get(edge.related_file_number);
+      if (existing) {
+        if (existing.depth === level && !existing.sources.includes(edge.source)) {
+          existing.sources.push(edge.source);
+        }
+        continue;
+      }
+
+      related.set(edge.related_file_number, {
+        file_number: edge.related_file_number,
+        jurisdiction,
+        depth: level,
+        via: edge.file_number,
+        sources: [edge.source],
+      });
+      next.push(edge.related_file_number);
+    }
+
+    frontier = next;
+  }
+
+  return [...related.values()];
+}
+
+/**
+ * A file filter plus every directly related file, for search expansion.
+ * With no jurisdictions, relations from all of them are followed.
+ */
+export async function expandFileNumbers(
+  fileNumbers: string[],
+  jurisdictions: string[] = []
+): Promise<string[]> {
+  if (fileNumbers.length === 0) return fileNumbers;
+
+  const collection = await getRelationsCollection();
+  const related = await distinctValues<MatterRelation, string>(collection, "related_file_number", {
+    file_number: { $in: fileNumbers },
+    ...(jurisdictions.length > 0 ? { jurisdiction: { $in: jurisdictions } } : {}),
+  });
+
+  return [...new Set([...fileNumbers, ...related])];
+}
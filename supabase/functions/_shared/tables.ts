@@ -0,0 +1,317 @@
+// =============================================================================
+// Structured Tables
+// =============================================================================
+// Parser backends keep tables as rows and columns of cells instead of
+// flattening them into text: pdf.js from text runs aligned in columns
+// (buildTable), Reducto from the HTML or Markdown of its table blocks
+// (tableFromMarkup). A table travels on its chunk through the pipeline and is
+// stored in its own collection (collectTables), where it can be fetched as
+// JSON or CSV and searched cell by cell. Like the parser backends, nothing
+// here touches Deno globals.
+// =============================================================================
+
+import { BoundingBox, DocumentTable, ParsedTable, ReductoChunk, TableCell } from "./types.ts";
+import { round, unionBox } from "./parser.ts";
+
+// A cell of text with its position on the page, before columns are known
+export interface PositionedCell {
+  text: string;
+  bbox: BoundingBox;
+}
+
+// The document a table was found in
+export interface TableSource {
+  source_url: string;
+  file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+}
+
+interface MarkupCell {
+  text: string;
+  span: number;
+  header: boolean;
+}
+
+// Tables need at least this many rows and columns
+const MIN_ROWS = 2;
+const MIN_COLUMNS = 2;
+
+/**
+ * A table from rows of positioned cells (top row first). Columns are taken
+ * from the rows with the most cells; a cell in another row goes to the
+ * columns it overlaps, or the nearest one.
+ */
+export function buildTable(rows: PositionedCell[][]): ParsedTable | null {
+  const widest = Math.max(0, ...rows.map((row) => row.length));
+  if (rows.length < MIN_ROWS || widest < MIN_COLUMNS) return null;
+
+  const model = rows.filter((row) => row.length === widest);
+  const columns = Array.from({ length: widest }, (_, column) => ({
+    left: Math.min(...model.map((row) => row[column].bbox.left)),
+    right: Math.max(...model.map((row) => row[column].bbox.left + row[column].bbox.width)),
+  }));
+
+  const cells: TableCell[] = [];
+  rows.forEach((row, rowIndex) => {
+    const placed = new Map<number, TableCell>();
+
+    for (const cell of row) {
+      const left = cell.bbox.left;
+      const right = left + cell.bbox.width;
+      const overlapping = columns
+        .map((interval, column) => ({ column, overlap: Math.min(right, interval.right) - Math.max(left, interval.left) }))
+        .filter(({ overlap }) => overlap > 0);
+      const column = overlapping.length > 0 ? overlapping[0].column : nearestColumn(columns, (left + right) / 2);
+      const span = Math.max(1, overlapping.length);
+
+      const existing = placed.get(column);
+      if (existing) {
+        existing.text = `${existing.text} ${cell.text}`;
+        existing.bbox = unionBox([existing.bbox, cell.bbox]);
+      } else {
+        placed.set(column, {
+          row: rowIndex,
+          column,
+          ...(span > 1 ? { column_span: span } : {}),
+          text: cell.text,
+          bbox: unionBox([cell.bbox]),
+          header: false,
+        });
+      }
+    }
+
+    cells.push(...[...placed.values()].sort((a, b) => a.column - b.column));
+  });
+
+  return withHeaderRows({
+    rows: rows.length,
+    columns: widest,
+    header_rows: 0,
+    cells,
+    bbox: unionBox(cells.map((cell) => cell.bbox)),
+  }, detectHeaderRows(rows.map((row) => row.map((cell) => cell.text)), cells));
+}
+
+/**
+ * A table from a parser's HTML (<table>) or Markdown (pipe table) output, or
+ * null if the content is neither. Cell boxes are estimated by dividing the
+ * table's box into even rows and columns.
+ */
+export function tableFromMarkup(content: string, bbox: BoundingBox): ParsedTable | null {
+  const markup = /<table[\s>]/i.test(content) ? parseHtmlTable(content) : parseMarkdownTable(content);
+  if (!markup) return null;
+
+  const { rows } = markup;
+  const columns = Math.max(0, ...rows.map((row) => row.reduce((total, cell) => total + cell.span, 0)));
+  if (rows.length < MIN_ROWS || columns < MIN_COLUMNS) return null;
+
+  const columnWidth = bbox.width / columns;
+  const rowHeight = bbox.height / rows.length;
+  const cells: TableCell[] = [];
+
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
+    for (const cell of row) {
+      if (cell.text) {
+        cells.push({
+          row: rowIndex,
+          column,
+          ...(cell.span > 1 ? { column_span: cell.span } : {}),
+          text: cell.text,
+          // The first row is at the top of the box, i.e. its highest y
+          bbox: {
+            left: round(bbox.left + column * columnWidth),
+            top: round(bbox.top + bbox.height - (rowIndex + 1) * rowHeight),
+            width: round(cell.span * columnWidth),
+            height: round(rowHeight),
+          },
+          header: false,
+        });
+      }
+      column += cell.span;
+    }
+  });
+
+  const headerRows = markup.headerRows ?? detectHeaderRows(rows.map((row) => row.map((cell) => cell.text)), cells);
+  return withHeaderRows(
+    { rows: rows.length, columns, header_rows: 0, cells, bbox, estimated_cell_boxes: true },
+    headerRows
+  );
+}
+
+/**
+ * A chunk holding a table, its text the table's rows
+ */
+export function createTableChunk(table: ParsedTable, index: number, pageNumber: number): ReductoChunk {
+  return {
+    text: tableText(table),
+    page_number: pageNumber,
+    bbox: table.bbox,
+    chunk_index: index,
+    table,
+    metadata: { table_detected: true },
+  };
+}
+
+/**
+ * The table's text as rows (ends exclusive, default: every row), each row's
+ * cells separated by " | ". The header rows always come first.
+ */
+export function tableText(table: ParsedTable, from = table.header_rows, to = table.rows): string {
+  const grid = tableGrid(table);
+  return [...grid.slice(0, table.header_rows), ...grid.slice(Math.max(from, table.header_rows), to)]
+    .map((row) => row.join(" | ").trim())
+    .join("\n");
+}
+
+/**
+ * The table as rows of cell text, empty cells as ""
+ */
+export function tableGrid(table: ParsedTable): string[][] {
+  const grid = Array.from({ length: table.rows }, () => Array<string>(table.columns).fill(""));
+  for (const cell of table.cells) {
+    grid[cell.row][cell.column] = cell.text;
+  }
+  return grid;
+}
+
+/**
+ * The table as CSV (RFC 4180)
+ */
+export function tableToCsv(table: ParsedTable): string {
+  return tableGrid(table)
+    .map((row) => row.map((text) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text)).join(","))
+    .join("\r\n");
+}
+
+export function tableId(sourceUrl: string, tableIndex: number): string {
+  return `${sourceUrl}#table-${tableIndex}`;
+}
+
+/**
+ * The tables on a document's chunks, each linked to every chunk holding
+ * part of it
+ */
+export function collectTables(
+  chunks: Array<{
+    chunk_index: number;
+    page_number: number;
+    table?: ParsedTable;
+    metadata?: Record<string, unknown>;
+  }>,
+  source: TableSource
+): DocumentTable[] {
+  const extractedAt = new Date().toISOString();
+
+  return chunks
+    .filter((chunk) => chunk.table && chunk.metadata?.table_index !== undefined)
+    .map((chunk) => {
+      const tableIndex = chunk.metadata!.table_index as number;
+      return {
+        ...chunk.table!,
+        table_id: tableId(source.source_url, tableIndex),
+        table_index: tableIndex,
+        source_url: source.source_url,
+        file_number: source.file_number,
+        jurisdiction: source.jurisdiction,
+        matter_version: source.matter_version,
+        page_number: chunk.page_number,
+        chunk_indexes: chunks
+          .filter((other) => other.metadata?.table_index === tableIndex)
+          .map((other) => other.chunk_index),
+        heading_path: chunk.metadata?.heading_path as string | undefined,
+        extracted_at: extractedAt,
+      };
+    });
+}
+
+function withHeaderRows(table: ParsedTable, headerRows: number): ParsedTable {
+  for (const cell of table.cells) {
+    cell.header = cell.row < headerRows;
+  }
+  return { ...table, header_rows: headerRows };
+}
+
+/**
+ * Header rows of a table without markup for them: the first row if it has no
+ * numbers while the rows below do, and the row under it too if the first
+ * row groups columns ("Existing" over "Units" and "Sq Ft")
+ */
+function detectHeaderRows(rows: string[][], cells: TableCell[]): number {
+  if (rows[0].some(isNumeric) || !rows.slice(1).some((row) => row.some(isNumeric))) return 0;
+
+  const grouped = cells.some((cell) => cell.row === 0 && cell.column_span);
+  return grouped && rows.length > 2 && !rows[1].some(isNumeric) ? 2 : 1;
+}
+
+// "65", "1,250", "40-X", "12.5 dBA", but not "2020 Census Tract"
+function isNumeric(text: string): boolean {
+  return /\d/.test(text) && !/[a-z]{4,}/i.test(text);
+}
+
+function nearestColumn(columns: Array<{ left: number; right: number }>, center: number): number {
+  let nearest = 0;
+  columns.forEach((interval, column) => {
+    const distance = Math.abs((interval.left + interval.right) / 2 - center);
+    if (distance < Math.abs((columns[nearest].left + columns[nearest].right) / 2 - center)) {
+      nearest = column;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Rows of an HTML table; rows of only <th> cells at the top are header rows.
+ * Row spans are not expanded.
+ */
+function parseHtmlTable(html: string): { rows: MarkupCell[][]; headerRows?: number } | null {
+  const rows = [...html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)]
+    .map((row) =>
+      [...row[1].matchAll(/<(t[hd])([^>]*)>([\s\S]*?)<\/t[hd]>/gi)].map((cell) => ({
+        text: htmlText(cell[3]),
+        span: Math.max(1, Number(cell[2].match(/colspan\s*=\s*["']?(\d+)/i)?.[1] || 1)),
+        header: cell[1].toLowerCase() === "th",
+      }))
+    )
+    .filter((row) => row.length > 0);
+  if (rows.length === 0) return null;
+
+  const headerRows = rows.findIndex((row) => !row.every((cell) => cell.header));
+  return { rows, headerRows: headerRows === -1 ? rows.length : headerRows || undefined };
+}
+
+/**
+ * Rows of a Markdown pipe table; rows above the |---| line are header rows
+ */
+function parseMarkdownTable(text: string): { rows: MarkupCell[][]; headerRows?: number } | null {
+  const lines = text.split("\n").map((line) => line.trim()).filter(Boolean);
+  if (lines.length < MIN_ROWS || !lines.every((line) => line.includes("|"))) return null;
+
+  const separator = lines.findIndex((line) => /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/.test(line));
+  const rows = lines
+    .filter((_, index) => index !== separator)
+    .map((line) =>
+      line
+        .replace(/^\|/, "")
+        .replace(/(?<!\\)\|$/, "")
+        .split(/(?<!\\)\|/)
+        .map((cell) => ({ text: cell.trim().replace(/\\\|/g, "|"), span: 1, header: false }))
+    );
+
+  return { rows, headerRows: separator > 0 ? separator : undefined };
+}
+
+function htmlText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,21 @@
+// =============================================================================
+// Test Fixtures
+// =============================================================================
+// noise-table.pdf is a one-page EIR excerpt: a heading, two paragraphs and a
+// four-column noise table, in Helvetica so pdf.js needs no font files.
+// =============================================================================
+
+import { createPdfjsParser, PdfjsModule } from "../pdfjs.ts";
+import { PdfParser } from "../parser.ts";
+
+export const FIXTURE_URL = "https://example.org/eir/noise-table.pdf";
+
+/**
+ * A pdf.js parser that reads noise-table.pdf whatever URL it is given
+ */
+export function createFixtureParser(): PdfParser {
+  return createPdfjsParser({
+    load_pdfjs: () => import("npm:pdfjs-dist@4.10.38/legacy/build/pdf.mjs") as Promise<PdfjsModule>,
+    fetch_pdf: () => Deno.readFile(new URL("./noise-table.pdf", import.meta.url)),
+  });
+}
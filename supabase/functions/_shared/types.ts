@@ -2,6 +2,16 @@
 // Shared Types for SF Zoning Compliance Automation
 // =============================================================================
 
+// -----------------------------------------------------------------------------
+// Jurisdiction Types
+// -----------------------------------------------------------------------------
+export interface Jurisdiction {
+  id: string;                     // e.g. "sf"; stored on jobs, chunks and history
+  legistar_client: string;        // Legistar Web API client slug, e.g. "sfgov"
+  name: string;                   // Display name, e.g. "San Francisco"
+  default_search_terms: string[];
+}
+
 // -----------------------------------------------------------------------------
 // Firecrawl Types
 // -----------------------------------------------------------------------------
@@ -9,25 +19,90 @@ export interface FirecrawlDiscoveryResult {
   url: string;
   title: string;
   file_number: string;
+  jurisdiction: string;
   attachment_type: string;
+  source?: DiscoverySourceType;  // Unset on PDFs discovered before sources existed (Legistar)
   discovered_at: string;
   metadata: {
     legistar_id?: string;
     meeting_date?: string;
     action?: string;
+    matter_id?: number;
+    matter_title?: string;
+    matter_type?: string;
+    matter_status?: string;
+    intro_date?: string;
+    body_name?: string;
+    department?: string;      // Originating department (Legistar MatterBodyName)
+    sponsors?: string[];      // Legistar MatterSponsorName, in sponsor order
+    event_id?: number;
+    matter_version?: string;  // Legistar MatterAttachmentMatterVersion, e.g. "2"
   };
+  // Other matters the same PDF is attached to; it is fetched once, stored
+  // under file_number and linked to each of these (see _shared/urls.ts)
+  other_matters?: DiscoveredMatter[];
+}
+
+export interface DiscoveredMatter {
+  file_number: string;
+  jurisdiction: string;
+  matter_id?: number;
+  matter_title?: string;
+  matter_version?: string;
+}
+
+// Events-mode discovery: walk meetings instead of matters
+export interface EventDiscoveryOptions {
+  from_date?: string;  // YYYY-MM-DD (default: since_days, or 30 days, ago)
+  to_date?: string;    // YYYY-MM-DD (default: today)
+  body_name?: string;  // e.g. "Land Use and Transportation Committee"
+}
+
+// -----------------------------------------------------------------------------
+// Discovery Source Types
+// -----------------------------------------------------------------------------
+export type DiscoverySourceType = "legistar" | "local" | "crawl";
+
+// Legistar OData matters, or meetings when events is set
+export interface LegistarSourceConfig {
+  type: "legistar";
+  jurisdiction?: string;
+  file_numbers?: string[];
+  search_terms?: string[];
+  since_days?: number;
+  events?: EventDiscoveryOptions;
 }
 
-export interface FirecrawlAgentRequest {
+// PDFs in a directory on the function's filesystem, or listed in a JSON manifest
+export interface LocalSourceConfig {
+  type: "local";
+  jurisdiction?: string;
+  directory?: string;
+  manifest?: string;     // Path or http(s) URL of a JSON manifest
+  base_url?: string;     // Public URL the files are served from (default: file:// URLs)
+  file_number?: string;  // For entries that do not name their own file
+}
+
+// PDF links found by crawling HTML pages from a start URL
+export interface CrawlSourceConfig {
+  type: "crawl";
+  jurisdiction?: string;
   url: string;
-  prompt: string;
-  model?: string;
-  maxCredits?: number;
+  max_depth?: number;     // Link hops from url to follow (default: 1)
+  max_pages?: number;     // HTML pages to fetch at most (default: 25)
+  same_origin?: boolean;  // Only follow links on url's origin (default: true)
+  link_pattern?: string;  // Regex a PDF link's URL must match
+  file_number?: string;
 }
 
+export type DiscoverySourceConfig = LegistarSourceConfig | LocalSourceConfig | CrawlSourceConfig;
+
 // -----------------------------------------------------------------------------
 // Reducto Types
 // -----------------------------------------------------------------------------
+// The service that turned a PDF into chunks: Reducto's API or local pdf.js
+export type ParserBackend = "reducto" | "pdfjs";
+
 export interface BoundingBox {
   left: number;
   top: number;
@@ -35,24 +110,131 @@ export interface BoundingBox {
   height: number;
 }
 
+// A word read by OCR, with its box on the page
+export interface ChunkWord {
+  text: string;
+  bbox: BoundingBox;
+  confidence: number;  // 0-1
+}
+
 export interface ReductoChunk {
   text: string;
   page_number: number;
   bbox: BoundingBox;
   chunk_index: number;
+  words?: ChunkWord[];  // Set on OCR chunks
+  table?: ParsedTable;  // Set on a table's (first) chunk
   metadata: {
     section?: string;
     table_detected?: boolean;
-    confidence?: number;
+    confidence?: number;  // Mean OCR word confidence, 0-1
+    ocr?: boolean;        // Text was recognized from a page image
+    heading_path?: string;  // e.g. "4. Environmental Setting > 4.2 Noise"
+    table_index?: number;   // Set on every chunk of a table, counted per document from 0
   };
 }
 
+// Sizes for re-chunking parsed blocks, in estimated embedding tokens
+export interface ChunkingOptions {
+  target_tokens?: number;   // Blocks are merged up to, and split down to, this size (default: 400)
+  overlap_tokens?: number;  // Trailing text repeated at the start of the next chunk (default: 50)
+  min_tokens?: number;      // Smaller chunks keep merging across pages (default: 100)
+}
+
+// -----------------------------------------------------------------------------
+// Table Types
+// -----------------------------------------------------------------------------
+export interface TableCell {
+  row: number;     // From 0, header rows first
+  column: number;  // From 0; a spanning cell's first column
+  column_span?: number;  // Set when over 1, e.g. a header over two columns
+  text: string;
+  bbox: BoundingBox;
+  header: boolean;
+}
+
+export interface ParsedTable {
+  rows: number;
+  columns: number;
+  header_rows: number;
+  cells: TableCell[];  // Row by row; empty cells are left out
+  bbox: BoundingBox;
+  // Cell boxes divide the table's box evenly; the parser gave no cell positions
+  estimated_cell_boxes?: boolean;
+}
+
+// A table as stored in document_tables, linked to the chunks holding its text
+export interface DocumentTable extends ParsedTable {
+  table_id: string;  // `${source_url}#table-${table_index}`
+  table_index: number;
+  source_url: string;
+  file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+  page_number: number;
+  chunk_indexes: number[];
+  heading_path?: string;
+  extracted_at: string;
+}
+
+// A cell matching a table search, with the labels that give it meaning
+export interface TableCellMatch extends TableCell {
+  column_header?: string;  // Header cell text over the cell's column
+  row_label?: string;      // Text of the row's first cell
+}
+
+export interface TableSearchResult {
+  table_id: string;
+  source_url: string;
+  file_number: string;
+  jurisdiction?: string;
+  page_number: number;
+  heading_path?: string;
+  rows: number;
+  columns: number;
+  matches: TableCellMatch[];
+}
+
+// -----------------------------------------------------------------------------
+// Attachment Classification Types
+// -----------------------------------------------------------------------------
+export interface AttachmentTypeRule {
+  type: string;        // e.g. "Noise Study"
+  phrases: string[];   // Matched case-insensitively in headings and text
+  weight?: number;     // Multiplies the type's score (default 1)
+}
+
+export interface AttachmentTaxonomy {
+  version: string;
+  fallback: string;    // Type assigned when nothing matches, e.g. "Attachment"
+  types: AttachmentTypeRule[];
+}
+
+export interface AttachmentClassification {
+  attachment_type: string;
+  confidence: number;  // 0-1
+  method: "content" | "filename" | "fallback";
+  matched: string[];   // Phrases that decided the type
+  taxonomy_version: string;
+  classified_at: string;
+}
+
 export interface ReductoParseResult {
   source_url: string;
   file_number: string;
   total_pages: number;
   chunks: ReductoChunk[];
   parsed_at: string;
+  usage?: {
+    pages_processed: number;
+    credits_used: number;
+  };
+  parser?: ParserBackend;
+  fallback_error?: string;  // Why the requested parser was replaced by pdf.js
+  reducto_job_id?: string;  // The Reducto job that parsed, is parsing, or failed before a fallback
+  // "pending" while an async Reducto job runs (chunks is empty until it completes);
+  // "failed" when it failed and no fallback parsed the PDF
+  status?: "pending" | "completed" | "failed";
 }
 
 // -----------------------------------------------------------------------------
@@ -83,22 +265,50 @@ export interface ZoningDocument {
   text: string;
   embedding: number[];
   file_number: string;
+  jurisdiction?: string;  // Unset on chunks stored before multi-jurisdiction support (SF)
+  matter_version?: string;
+  superseded?: boolean;   // A newer version of the same file has been stored
+  linked_files?: DocumentLink[];  // Other files the same PDF is attached to
   source_url: string;
   page_number: number;
   bbox: BoundingBox;
   chunk_index: number;
+  words?: ChunkWord[];  // Set on OCR chunks
   metadata: {
     section?: string;
     table_detected?: boolean;
+    confidence?: number;
+    ocr?: boolean;
+    heading_path?: string;
+    table_id?: string;  // The stored table this chunk holds (part of)
+    body_name?: string;
+    department?: string;
+    sponsors?: string[];
+    classification?: AttachmentClassification;
+    parser?: ParserBackend;
     discovered_at: string;
     parsed_at: string;
     embedded_at: string;
   };
 }
 
+// A copy of a stored PDF found under another URL; the copy is not stored
+// again, its file is linked to the original's chunks instead
+export interface DocumentLink {
+  file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+  source_url: string;  // URL of the copy
+}
+
 export interface VectorSearchQuery {
   query_text: string;
   file_numbers?: string[];
+  jurisdictions?: string[];
+  sponsors?: string[];     // Match any; case-insensitive substring
+  departments?: string[];  // Match any; case-insensitive substring
+  attachment_types?: string[];  // Classified type, exact
+  include_superseded?: boolean;
   limit?: number;
   min_score?: number;
 }
@@ -108,22 +318,327 @@ export interface VectorSearchResult {
   score: number;
 }
 
+// Counts over every chunk that passed the search filters and min_score
+export interface SearchFacets {
+  attachment_type: Record<string, number>;
+}
+
 // -----------------------------------------------------------------------------
 // Orchestration Types
 // -----------------------------------------------------------------------------
+export type PipelineJobStatus =
+  | "pending"
+  | "discovering"
+  | "parsing"
+  | "embedding"
+  | "upserting"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+// Requested through pause_job / cancel_job, honored at the next safe point
+export type StopRequest = "pause" | "cancel";
+
+export interface CostEstimate {
+  pages: number;
+  reducto_credits: number;
+  embedding_tokens: number;
+}
+
+export interface PlannedDocument {
+  url: string;
+  title: string;
+  file_number: string;
+  attachment_type: string;
+  change_status: ChangeStatus;
+  duplicate_of?: string;  // Original's source_url when change_status is "duplicate"
+  will_process: boolean;
+  skip_reason?: "unchanged" | "duplicate" | "over_budget";
+  estimate: CostEstimate;
+}
+
+export interface PipelinePlan {
+  documents: PlannedDocument[];
+  to_process: number;
+  skipped: number;
+  estimate: CostEstimate;
+  max_credits: number;
+  within_budget: boolean;
+}
+
+export interface ChangeSummary {
+  new: number;
+  changed: number;
+  skipped: number;
+  duplicates: number;
+}
+
 export interface PipelineJob {
   job_id: string;
-  status: "pending" | "discovering" | "parsing" | "embedding" | "upserting" | "completed" | "failed";
+  status: PipelineJobStatus;
+  jurisdiction?: string;  // Unset on jobs created before multi-jurisdiction support (SF)
   file_numbers: string[];
+  search_terms: string[];
+  since_days?: number;
+  events?: EventDiscoveryOptions;
+  sources?: DiscoverySourceConfig[];  // Replaces the Legistar settings above when set
+  pdf_limit: number;
+  parser?: ParserBackend | "auto";  // Unset means "auto"
+  chunking?: ChunkingOptions;
   discovered_pdfs: FirecrawlDiscoveryResult[];
   parsed_chunks: number;
   embedded_chunks: number;
   upserted_chunks: number;
+  change_summary: ChangeSummary;
+  max_credits: number;
+  max_tokens: number;
+  usage: UsageSummary;
+  concurrency: {
+    parse: number;
+    embed: number;
+  };
+  estimate?: CostEstimate;
+  deferred_pdfs?: number;
+  failed_documents?: FailedDocument[];
+  stop_requested?: StopRequest;
+  // PDFs whose Reducto job was still running when the job paused to wait for
+  // them; the Reducto webhook or resume_job picks the job up again
+  reducto_pending?: number;
+  // Reducto jobs whose webhook arrived while the job was running (see pauseForReducto)
+  reducto_completed?: string[];
+  watch_id?: string;  // Set when the job was started by a watch
   started_at: string;
+  updated_at: string;
   completed_at?: string;
   error?: string;
 }
 
+// -----------------------------------------------------------------------------
+// Source Document Types
+// -----------------------------------------------------------------------------
+// "duplicate": a new URL whose content is already stored (or queued) under another URL
+export type ChangeStatus = "new" | "changed" | "unchanged" | "duplicate";
+
+export interface SourceFingerprint {
+  content_hash?: string;
+  etag?: string;
+  last_modified?: string;
+  content_length?: number;
+  page_count?: number;
+}
+
+export interface SourceDocument extends SourceFingerprint {
+  source_url: string;
+  file_number: string;
+  matter_version?: string;
+  jurisdiction?: string;
+  duplicate_of?: string;  // Set on copies: the source_url whose chunks they link to
+  job_id: string;
+  last_ingested_at: string;
+}
+
+// -----------------------------------------------------------------------------
+// Usage Ledger Types
+// -----------------------------------------------------------------------------
+export type UsageProvider = "reducto" | "voyage";
+
+export interface UsageEntry {
+  job_id: string;
+  source_url: string;
+  file_number: string;
+  provider: UsageProvider;
+  credits: number;
+  pages: number;
+  tokens: number;
+  day: string; // YYYY-MM-DD (UTC)
+  recorded_at: string;
+}
+
+export interface UsageSummary {
+  reducto_credits: number;
+  pages_processed: number;
+  embedding_tokens: number;
+}
+
+export interface UsageReportRow extends UsageSummary {
+  key: string;
+}
+
+export interface UsageReport {
+  group_by: "job" | "document" | "day";
+  rows: UsageReportRow[];
+  totals: UsageSummary;
+}
+
+// -----------------------------------------------------------------------------
+// Checkpoint Types
+// -----------------------------------------------------------------------------
+export type DocumentStage = "discovered" | "parsed" | "embedded" | "stored";
+
+export interface PipelineChunk {
+  text: string;
+  embedding?: number[];
+  file_number: string;
+  jurisdiction?: string;
+  matter_version?: string;
+  source_url: string;
+  page_number: number;
+  bbox: BoundingBox;
+  chunk_index: number;
+  words?: ChunkWord[];
+  table?: ParsedTable;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DocumentCheckpoint {
+  job_id: string;
+  source_url: string;
+  file_number: string;
+  stage: DocumentStage;
+  change_status?: ChangeStatus;
+  fingerprint?: SourceFingerprint;
+  duplicate_of?: string;
+  other_matters_linked?: boolean;  // Stored chunks carry the PDF's other_matters
+  over_budget?: boolean;
+  reducto_job_id?: string;       // Async Reducto job submitted for the PDF
+  reducto_submitted_at?: string;
+  // Estimated cost put on the usage ledger at submit, settled when the job completes
+  reducto_recorded_usage?: { credits: number; pages: number };
+  chunk_count: number;
+  stored_chunks: number;
+  parsed_at?: string;
+  updated_at: string;
+  // Set while the PDF's last attempt at failed_stage failed
+  error?: string;
+  failed_stage?: FailedStage;
+  failed_at?: string;
+  attempts?: number;
+}
+
+export type FailedStage = "parse" | "embed" | "store";
+
+// Dead-letter entry on a job: a PDF whose last attempt failed
+export interface FailedDocument {
+  source_url: string;
+  file_number: string;
+  stage: FailedStage;
+  error: string;
+  attempts: number;
+  failed_at: string;
+}
+
+// -----------------------------------------------------------------------------
+// Progress Event Types
+// -----------------------------------------------------------------------------
+export type PipelineEventType = "snapshot" | "stage" | "document" | "counters" | "failure" | "done";
+
+export interface PipelineEvent {
+  job_id: string;
+  seq: number;
+  type: PipelineEventType;
+  data: Record<string, unknown>;
+  at: string;
+}
+
+// -----------------------------------------------------------------------------
+// Watch Types
+// -----------------------------------------------------------------------------
+export interface Watch {
+  watch_id: string;
+  name: string;
+  jurisdiction?: string;
+  file_numbers: string[];
+  search_terms: string[];
+  sources?: DiscoverySourceConfig[];
+  pdf_limit: number;
+  max_credits: number;
+  interval_minutes: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+  next_run_at: string;
+  last_run_at?: string;
+  last_job_id?: string;
+}
+
+export interface ChangedDocument {
+  source_url: string;
+  file_number: string;
+  chunk_count: number;
+}
+
+// What one watch run added or updated compared with the run before it
+export interface ChangeReport {
+  watch_id: string;
+  job_id: string;
+  status: PipelineJobStatus;
+  added: ChangedDocument[];
+  updated: ChangedDocument[];
+  unchanged: number;
+  duplicates: number;  // New URLs linked to an already stored copy
+  failed: FailedDocument[];
+  created_at: string;
+}
+
+// -----------------------------------------------------------------------------
+// Legislative History Types
+// -----------------------------------------------------------------------------
+export interface MatterVote {
+  person_name: string;
+  value: string;  // "Aye", "No", "Absent", ...
+}
+
+// One Legistar MatterHistory entry: a referral, hearing action, amendment or vote
+export interface MatterAction {
+  jurisdiction: string;
+  file_number: string;
+  matter_id: number;
+  history_id: number;
+  action_date: string;
+  action_name: string;
+  action_text?: string;
+  body_name?: string;
+  passed?: boolean;  // Unset when the action has no pass / fail outcome
+  passed_label?: string;
+  mover?: string;
+  seconder?: string;
+  tally?: string;
+  event_id?: number;
+  agenda_sequence?: number;
+  matter_version?: string;
+  votes: MatterVote[];
+  ingested_at: string;
+}
+
+// -----------------------------------------------------------------------------
+// Related-Matter Graph Types
+// -----------------------------------------------------------------------------
+// "legistar": Legistar's related-matter data; "text": a "File No. XXXXXX"
+// reference found in a parsed document
+export type RelationSource = "legistar" | "text";
+
+// One directed edge; every relation is stored in both directions
+export interface MatterRelation {
+  jurisdiction: string;
+  file_number: string;
+  related_file_number: string;
+  source: RelationSource;
+  matter_id?: number;
+  related_matter_id?: number;
+  source_url?: string;  // Document the reference was found in (text relations)
+  discovered_at: string;
+}
+
+// A file reached from another by walking the relation graph
+export interface RelatedFile {
+  file_number: string;
+  jurisdiction: string;
+  depth: number;           // 1 = directly related
+  via: string;             // The file it was reached from
+  sources: RelationSource[];
+}
+
 // -----------------------------------------------------------------------------
 // API Response Types
 // -----------------------------------------------------------------------------
@@ -0,0 +1,99 @@
+// =============================================================================
+// URL Normalization
+// =============================================================================
+// The same attachment is often linked under URLs that differ only in case,
+// fragment, query-parameter order or tracking parameters. Discovery compares
+// URLs in one normal form so those copies are found once. The normal form is
+// only a key: rebuilding the query re-encodes it ("%20" becomes "+") and
+// reorders it, which some servers answer differently, so PDFs keep and are
+// fetched by the URL they were linked under. A PDF found again under
+// another matter is not dropped: the first copy collects that matter in its
+// other_matters, so the document is linked to every matter it appears in.
+// =============================================================================
+
+import { DiscoveredMatter, FirecrawlDiscoveryResult } from "./types.ts";
+
+// Query parameters that never change what a URL points at
+const TRACKING_PARAMS = [/^utm_/i, /^fbclid$/i, /^gclid$/i, /^mc_(cid|eid)$/i];
+
+/**
+ * The normal form of a URL, for comparing URLs rather than fetching them:
+ * lowercase scheme and host, no default port,
+ * fragment or tracking parameters, repeated slashes collapsed and query
+ * parameters sorted by name. Strings that are not URLs come back trimmed.
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = "";
+  if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+    parsed.pathname = parsed.pathname.replace(/\/{2,}/g, "/");
+  }
+
+  // Sorting is stable, so repeated parameters keep their relative order
+  const params = [...parsed.searchParams]
+    .filter(([name]) => !TRACKING_PARAMS.some((pattern) => pattern.test(name)))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = params.length > 0 ? new URLSearchParams(params).toString() : "";
+
+  return parsed.href;
+}
+
+// Discovered PDFs, one entry per normal URL
+export interface PdfList {
+  pdfs: FirecrawlDiscoveryResult[];
+  /** Lists pdf, or merges its matters into the entry for its URL and returns false */
+  add(pdf: FirecrawlDiscoveryResult): boolean;
+}
+
+/**
+ * An empty PdfList. A PDF whose URL is already listed adds its matters to
+ * the listed one's other_matters.
+ */
+export function createPdfList(): PdfList {
+  const pdfs: FirecrawlDiscoveryResult[] = [];
+  const byUrl = new Map<string, FirecrawlDiscoveryResult>();
+
+  const add = (pdf: FirecrawlDiscoveryResult) => {
+    const key = normalizeUrl(pdf.url);
+    const listed = byUrl.get(key);
+    if (!listed) {
+      byUrl.set(key, pdf);
+      pdfs.push(pdf);
+      return true;
+    }
+
+    for (const matter of mattersOf(pdf)) {
+      const known = mattersOf(listed).some(
+        (other) => other.file_number === matter.file_number && other.jurisdiction === matter.jurisdiction
+      );
+      if (matter.file_number && !known) {
+        listed.other_matters = [...(listed.other_matters || []), matter];
+      }
+    }
+    return false;
+  };
+
+  return { pdfs, add };
+}
+
+/**
+ * Every matter a discovered PDF was found under, its own first
+ */
+export function mattersOf(pdf: FirecrawlDiscoveryResult): DiscoveredMatter[] {
+  return [
+    {
+      file_number: pdf.file_number,
+      jurisdiction: pdf.jurisdiction,
+      matter_id: pdf.metadata.matter_id,
+      matter_title: pdf.metadata.matter_title,
+      matter_version: pdf.metadata.matter_version,
+    },
+    ...(pdf.other_matters || []),
+  ];
+}
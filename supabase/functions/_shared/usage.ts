@@ -0,0 +1,117 @@
+// =============================================================================
+// Usage & Cost Ledger
+// =============================================================================
+// One entry per billable provider call (Reducto parse, Voyage embed), so spend
+// can be reported per job, per PDF and per day.
+// =============================================================================
+
+import { UsageEntry, UsageProvider, UsageReport, UsageSummary } from "./types.ts";
+import { getDatabase, USAGE_LEDGER_COLLECTION } from "./mongo.ts";
+
+const GROUP_FIELDS: Record<UsageReport["group_by"], string> = {
+  job: "$job_id",
+  document: "$source_url",
+  day: "$day",
+};
+
+export function emptyUsage(): UsageSummary {
+  return { reducto_credits: 0, pages_processed: 0, embedding_tokens: 0 };
+}
+
+/**
+ * Appends an entry to the ledger
+ */
+export async function recordUsage(entry: {
+  job_id: string;
+  source_url: string;
+  file_number: string;
+  provider: UsageProvider;
+  credits?: number;
+  pages?: number;
+  tokens?: number;
+}): Promise<UsageEntry> {
+  const now = new Date();
+  const record: UsageEntry = {
+    job_id: entry.job_id,
+    source_url: entry.source_url,
+    file_number: entry.file_number,
+    provider: entry.provider,
+    credits: entry.credits || 0,
+    pages: entry.pages || 0,
+    tokens: entry.tokens || 0,
+    day: now.toISOString().slice(0, 10),
+    recorded_at: now.toISOString(),
+  };
+
+  const db = await getDatabase();
+  await db.collection<UsageEntry>(USAGE_LEDGER_COLLECTION).insertOne({ ...record });
+
+  return record;
+}
+
+/**
+ * Adds a ledger entry to a running summary
+ */
+export function addUsage(summary: UsageSummary, entry: UsageEntry): UsageSummary {
+  return {
+    reducto_credits: summary.reducto_credits + entry.credits,
+    pages_processed: summary.pages_processed + entry.pages,
+    embedding_tokens: summary.embedding_tokens + entry.tokens,
+  };
+}
+
+/**
+ * Aggregates the ledger, optionally filtered by job and day range (inclusive)
+ */
+export async function getUsageReport(options: {
+  group_by?: UsageReport["group_by"];
+  job_id?: string;
+  from_day?: string;
+  to_day?: string;
+}): Promise<UsageReport> {
+  const groupBy = options.group_by || "day";
+
+  const match: Record<string, unknown> = {};
+  if (options.job_id) match.job_id = options.job_id;
+  if (options.from_day || options.to_day) {
+    match.day = {
+      ...(options.from_day ? { $gte: options.from_day } : {}),
+      ...(options.to_day ? { $lte: options.to_day } : {}),
+    };
+  }
+
+  const db = await getDatabase();
+  const grouped = await db
+    .collection<UsageEntry>(USAGE_LEDGER_COLLECTION)
+    .aggregate<{ _id: string; credits: number; pages: number; tokens: number }>([
+      { $match: match },
+      {
+        $group: {
+          _id: GROUP_FIELDS[groupBy],
+          credits: { $sum: "$credits" },
+          pages: { $sum: "$pages" },
+          tokens: { $sum: "$tokens" },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ])
+    .toArray();
+
+  const rows = grouped.map((row) => ({
+    key: row._id,
+    reducto_credits: row.credits,
+    pages_processed: row.pages,
+    embedding_tokens: row.tokens,
+  }));
+
+  const totals = rows.reduce(
+    (total, row) => ({
+      reducto_credits: total.reducto_credits + row.reducto_credits,
+      pages_processed: total.pages_processed + row.pages_processed,
+      embedding_tokens: total.embedding_tokens + row.embedding_tokens,
+    }),
+    emptyUsage()
+  );
+
+  return { group_by: groupBy, rows, totals };
+}
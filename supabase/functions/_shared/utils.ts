@@ -72,12 +72,14 @@ export function chunkArray<T>(array: T[], size: number): T[][] {
 }
 
 /**
- * Retries an async operation with exponential backoff
+ * Retries an async operation with exponential backoff. Errors shouldRetry
+ * turns down are thrown at once.
  */
 export async function retryWithBackoff<T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelayMs: number = 1000
+  baseDelayMs: number = 1000,
+  shouldRetry: (error: Error) => boolean = () => true
 ): Promise<T> {
   let lastError: Error | null = null;
 
@@ -86,6 +88,7 @@ export async function retryWithBackoff<T>(
       return await operation();
     } catch (error) {
       lastError = error as Error;
+      if (!shouldRetry(lastError)) break;
       if (attempt < maxRetries - 1) {
         const delay = baseDelayMs * Math.pow(2, attempt);
         await new Promise((resolve) => setTimeout(resolve, delay));
@@ -102,3 +105,71 @@ export async function retryWithBackoff<T>(
 export function generateJobId(): string {
   return `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
+
+/**
+ * Generates a unique watch ID
+ */
+export function generateWatchId(): string {
+  return `watch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Keeps a promise running after the response has been returned.
+ * Uses EdgeRuntime.waitUntil when deployed; locally the promise simply runs on.
+ */
+export function runInBackground(promise: Promise<unknown>): void {
+  const edgeRuntime = (globalThis as { EdgeRuntime?: { waitUntil(p: Promise<unknown>): void } }).EdgeRuntime;
+  const guarded = promise.catch((error) => {
+    console.error(`[background] Unhandled error:`, error);
+  });
+
+  if (edgeRuntime) {
+    edgeRuntime.waitUntil(guarded);
+  }
+}
+
+/**
+ * Creates a worker pool that runs at most `concurrency` tasks at once and
+ * starts tasks at least `minIntervalMs` apart (to respect provider rate limits)
+ */
+export function createLimiter(
+  concurrency: number,
+  minIntervalMs: number = 0
+): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  let nextStartAt = 0;
+  const waiting: Array<() => void> = [];
+
+  const acquire = (): Promise<void> => {
+    if (active < concurrency) {
+      active++;
+      return Promise.resolve();
+    }
+    // The slot is handed over directly by release()
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquire();
+    try {
+      const now = Date.now();
+      const startAt = Math.max(now, nextStartAt);
+      nextStartAt = startAt + minIntervalMs;
+      if (startAt > now) {
+        await new Promise((resolve) => setTimeout(resolve, startAt - now));
+      }
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
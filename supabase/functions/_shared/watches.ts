@@ -0,0 +1,173 @@
+// =============================================================================
+// Watches & Change Reports
+// =============================================================================
+// A watch re-runs discovery for a set of file numbers / search terms on a
+// schedule. Each run is an ordinary pipeline job, so change detection keeps
+// it to new and updated attachments; the job's outcome is saved as a change
+// report on the watch.
+// =============================================================================
+
+import {
+  ChangeReport,
+  DocumentCheckpoint,
+  PipelineJob,
+  Watch,
+} from "./types.ts";
+import { getDatabase, WATCHES_COLLECTION, CHANGE_REPORTS_COLLECTION } from "./mongo.ts";
+
+async function getWatchesCollection() {
+  const db = await getDatabase();
+  return db.collection<Watch>(WATCHES_COLLECTION);
+}
+
+async function getReportsCollection() {
+  const db = await getDatabase();
+  return db.collection<ChangeReport>(CHANGE_REPORTS_COLLECTION);
+}
+
+/**
+ * Inserts or replaces a watch
+ */
+export async function saveWatch(watch: Watch): Promise<void> {
+  const collection = await getWatchesCollection();
+  watch.updated_at = new Date().toISOString();
+
+  await collection.replaceOne(
+    { watch_id: watch.watch_id },
+    { ...watch },
+    { upsert: true }
+  );
+}
+
+/**
+ * Loads a watch by ID, or null if it does not exist
+ */
+export async function getWatch(watchId: string): Promise<Watch | null> {
+  const collection = await getWatchesCollection();
+  return await collection.findOne(
+    { watch_id: watchId },
+    { projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Lists all watches, oldest first
+ */
+export async function listWatches(): Promise<Watch[]> {
+  const collection = await getWatchesCollection();
+  return await collection
+    .find({}, { projection: { _id: 0 } })
+    .sort({ created_at: 1 })
+    .toArray();
+}
+
+/**
+ * Lists enabled watches whose next run is due
+ */
+export async function listDueWatches(now: Date = new Date()): Promise<Watch[]> {
+  const collection = await getWatchesCollection();
+  return await collection
+    .find(
+      { enabled: true, next_run_at: { $lte: now.toISOString() } },
+      { projection: { _id: 0 } }
+    )
+    .sort({ next_run_at: 1 })
+    .toArray();
+}
+
+/**
+ * Claims a due watch for the job that will run it: records the job and moves
+ * next_run_at on by the watch's interval, but only while the watch is still
+ * due. Returns the claimed watch, or null if an overlapping run_watches call
+ * claimed it first (or it was disabled meanwhile).
+ */
+export async function claimDueWatch(
+  watch: Watch,
+  jobId: string,
+  now: Date = new Date()
+): Promise<Watch | null> {
+  const collection = await getWatchesCollection();
+
+  return await collection.findOneAndUpdate(
+    { watch_id: watch.watch_id, enabled: true, next_run_at: { $lte: now.toISOString() } },
+    {
+      $set: {
+        last_run_at: now.toISOString(),
+        last_job_id: jobId,
+        next_run_at: new Date(now.getTime() + watch.interval_minutes * 60_000).toISOString(),
+        updated_at: now.toISOString(),
+      },
+    },
+    { returnDocument: "after", projection: { _id: 0 } }
+  );
+}
+
+/**
+ * Deletes a watch. Its change reports are kept.
+ * Returns false if the watch did not exist.
+ */
+export async function deleteWatch(watchId: string): Promise<boolean> {
+  const collection = await getWatchesCollection();
+  const result = await collection.deleteOne({ watch_id: watchId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Summarizes a finished watch job from its checkpoints: PDFs stored for the
+ * first time are "added", re-ingested PDFs whose content changed are "updated",
+ * and new URLs linked to an already stored copy count as "duplicates"
+ */
+export function buildChangeReport(
+  job: PipelineJob & { watch_id: string },
+  checkpoints: DocumentCheckpoint[]
+): ChangeReport {
+  const stored = checkpoints.filter(
+    (checkpoint) => checkpoint.stage === "stored" && checkpoint.change_status !== "unchanged"
+  );
+  const toChanged = (checkpoint: DocumentCheckpoint) => ({
+    source_url: checkpoint.source_url,
+    file_number: checkpoint.file_number,
+    chunk_count: checkpoint.stored_chunks,
+  });
+
+  return {
+    watch_id: job.watch_id,
+    job_id: job.job_id,
+    status: job.status,
+    added: stored.filter((checkpoint) => checkpoint.change_status === "new").map(toChanged),
+    updated: stored.filter((checkpoint) => checkpoint.change_status === "changed").map(toChanged),
+    unchanged: checkpoints.filter((checkpoint) => checkpoint.change_status === "unchanged").length,
+    duplicates: stored.filter((checkpoint) => checkpoint.change_status === "duplicate").length,
+    failed: job.failed_documents || [],
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Saves the change report for a watch run, replacing any earlier report for
+ * the same job (a resumed job reports once more when it finishes)
+ */
+export async function saveChangeReport(report: ChangeReport): Promise<void> {
+  const collection = await getReportsCollection();
+  await collection.replaceOne(
+    { job_id: report.job_id },
+    { ...report },
+    { upsert: true }
+  );
+}
+
+/**
+ * Lists change reports, newest first, optionally for one watch
+ */
+export async function listChangeReports(
+  options: { watch_id?: string; limit?: number } = {}
+): Promise<ChangeReport[]> {
+  const { watch_id, limit = 20 } = options;
+  const collection = await getReportsCollection();
+
+  return await collection
+    .find(watch_id ? { watch_id } : {}, { projection: { _id: 0 } })
+    .sort({ created_at: -1 })
+    .limit(limit)
+    .toArray();
+}
@@ -0,0 +1,157 @@
+// =============================================================================
+// HTML Link-Crawler Discovery Source
+// =============================================================================
+// Fetches a start page and follows its links breadth-first, collecting every
+// link to a PDF. Works against any site that lists documents as plain <a>
+// links - a city's planning page, or a local HTTP fixture served with e.g.
+// `python3 -m http.server` (which needs DISCOVERY_ALLOW_PRIVATE_HOSTS=true:
+// only http(s) pages on public hosts are fetched, see guard.ts).
+// =============================================================================
+
+import { CrawlSourceConfig, FirecrawlDiscoveryResult } from "../_shared/types.ts";
+import { getJurisdiction } from "../_shared/jurisdictions.ts";
+import { DiscoverySource, DiscoveryOutcome, classifyAttachment, isPdfLink } from "./sources.ts";
+import { fetchPublic } from "./guard.ts";
+
+const DEFAULT_MAX_DEPTH = 1;
+const DEFAULT_MAX_PAGES = 25;
+
+const LINK_PATTERN = /<a\s[^>]*?href\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+
+interface PageLink {
+  url: string;
+  text: string;
+}
+
+/**
+ * PDF links reachable from config.url. Throws if url is missing, invalid or
+ * not http(s).
+ */
+export function createCrawlSource(config: CrawlSourceConfig): DiscoverySource {
+  if (!config.url) {
+    throw new Error("A crawl source needs a url");
+  }
+  const startUrl = new URL(config.url);
+  if (startUrl.protocol !== "http:" && startUrl.protocol !== "https:") {
+    throw new Error(`A crawl source needs an http(s) url: ${config.url}`);
+  }
+  const jurisdiction = getJurisdiction(config.jurisdiction);
+  const maxDepth = Math.max(0, config.max_depth ?? DEFAULT_MAX_DEPTH);
+  const maxPages = Math.max(1, config.max_pages || DEFAULT_MAX_PAGES);
+  const sameOrigin = config.same_origin !== false;
+  const linkFilter = config.link_pattern ? new RegExp(config.link_pattern, "i") : null;
+
+  return {
+    type: "crawl",
+    async discover(limit: number): Promise<DiscoveryOutcome> {
+      const discoveredPdfs: FirecrawlDiscoveryResult[] = [];
+      const seenUrls = new Set<string>([startUrl.href]);
+      let queue: string[] = [startUrl.href];
+      let pagesFetched = 0;
+      let pagesFailed = 0;
+
+      for (let depth = 0; depth <= maxDepth && queue.length > 0; depth++) {
+        const nextQueue: string[] = [];
+
+        for (const pageUrl of queue) {
+          if (discoveredPdfs.length >= limit || pagesFetched >= maxPages) break;
+
+          console.log(`[firecrawl-discover] Crawling ${pageUrl} (depth ${depth})`);
+          pagesFetched++;
+
+          let links: PageLink[];
+          try {
+            links = await fetchLinks(pageUrl);
+          } catch (err) {
+            pagesFailed++;
+            console.error(`[firecrawl-discover] Error crawling ${pageUrl}:`, err);
+            continue;
+          }
+
+          for (const link of links) {
+            if (seenUrls.has(link.url)) continue;
+            seenUrls.add(link.url);
+
+            if (isPdfLink(new URL(link.url).pathname)) {
+              if (discoveredPdfs.length >= limit) break;
+              if (linkFilter && !linkFilter.test(link.url)) continue;
+
+              const title = link.text || decodeURIComponent(link.url.split("/").pop() || link.url);
+              discoveredPdfs.push({
+                url: link.url,
+                title,
+                file_number: config.file_number || "",
+                jurisdiction: jurisdiction.id,
+                attachment_type: classifyAttachment(title),
+                discovered_at: new Date().toISOString(),
+                metadata: {},
+              });
+            } else if (!sameOrigin || new URL(link.url).origin === startUrl.origin) {
+              nextQueue.push(link.url);
+            }
+          }
+        }
+
+        queue = nextQueue;
+      }
+
+      console.log(`[firecrawl-discover] Discovered ${discoveredPdfs.length} PDFs from ${pagesFetched} pages`);
+
+      return {
+        discovered_pdfs: discoveredPdfs,
+        stats: {
+          jurisdiction: jurisdiction.id,
+          start_url: startUrl.href,
+          pages_fetched: pagesFetched,
+          pages_failed: pagesFailed,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * The http(s) links on an HTML page, resolved against the page URL (after
+ * redirects). Non-HTML responses have no links.
+ */
+async function fetchLinks(pageUrl: string): Promise<PageLink[]> {
+  const response = await fetchPublic(pageUrl);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  if (!(response.headers.get("content-type") || "").includes("html")) {
+    await response.body?.cancel();
+    return [];
+  }
+
+  const html = await response.text();
+  const links: PageLink[] = [];
+
+  for (const match of html.matchAll(LINK_PATTERN)) {
+    let url: URL;
+    try {
+      url = new URL(decodeEntities(match[2].trim()), response.url || pageUrl);
+    } catch {
+      continue;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+
+    url.hash = "";
+    links.push({
+      url: url.href,
+      text: decodeEntities(match[3].replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim(),
+    });
+  }
+
+  return links;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ");
+}
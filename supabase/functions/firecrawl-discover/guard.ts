@@ -0,0 +1,123 @@
+// =============================================================================
+// Discovery Source Guards
+// =============================================================================
+// Local and crawl sources take paths and URLs from the request, so they are
+// confined: local files to the directory LOCAL_SOURCE_ROOT names, fetched
+// pages and manifests to http(s) URLs on public hosts, redirects included.
+// DISCOVERY_ALLOW_PRIVATE_HOSTS=true lifts the host check, e.g. to crawl a
+// fixture served on localhost during development.
+// =============================================================================
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * The real path of a local file or directory, following symlinks. Relative
+ * paths are taken from baseDir (default: root). Throws if it does not exist
+ * or resolves outside root; both give the same message, so requests cannot
+ * probe for files outside it.
+ */
+export async function resolveInRoot(root: string, path: string, baseDir: string = root): Promise<string> {
+  const realRoot = await Deno.realPath(root);
+
+  let real: string | null = null;
+  try {
+    real = await Deno.realPath(path.startsWith("/") ? path : `${baseDir}/${path}`);
+  } catch {
+    // Reported below
+  }
+
+  if (!real || (real !== realRoot && !real.startsWith(`${realRoot.replace(/\/$/, "")}/`))) {
+    throw new Error(`${path} is not under LOCAL_SOURCE_ROOT`);
+  }
+  return real;
+}
+
+/**
+ * fetch for a URL taken from a request: http(s) only, and neither it nor a
+ * redirect may lead to a private, loopback or link-local host. Throws if one does.
+ */
+export async function fetchPublic(
+  url: string,
+  allowPrivateHosts = Deno.env.get("DISCOVERY_ALLOW_PRIVATE_HOSTS") === "true"
+): Promise<Response> {
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(current, allowPrivateHosts);
+    const response = await fetch(current, { redirect: "manual" });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects from ${url}`);
+    }
+    current = new URL(location, current);
+  }
+}
+
+/**
+ * Throws unless url is http(s) on a public host. A host name is checked by
+ * every address it resolves to.
+ */
+export async function assertPublicUrl(url: URL, allowPrivateHosts = false): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http(s) URLs can be fetched: ${url.href}`);
+  }
+  if (allowPrivateHosts) return;
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  const addresses = isIpAddress(host) ? [host] : await resolveHost(host);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${url.href}: ${host} is not a public host`);
+  }
+}
+
+async function resolveHost(host: string): Promise<string[]> {
+  if (host === "localhost" || host.endsWith(".localhost")) return ["127.0.0.1"];
+
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(host, "A"),
+    Deno.resolveDns(host, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+function isIpAddress(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+}
+
+/**
+ * True for addresses that are not on the public internet: unspecified,
+ * loopback, private, carrier-grade NAT, link-local (cloud metadata),
+ * multicast and reserved ranges, in IPv4 or IPv6 (including IPv4-mapped)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  // URLs write IPv4-mapped addresses in hex, e.g. [::ffff:7f00:1]
+  const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  if (!address.includes(":")) {
+    const [a, b] = address.split(".").map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  const lower = address.toLowerCase();
+  return lower === "::" || lower === "::1" ||
+    /^f[cd]/.test(lower) ||         // fc00::/7 unique local
+    /^fe[89ab]/.test(lower) ||      // fe80::/10 link-local
+    lower.startsWith("ff");         // multicast
+}
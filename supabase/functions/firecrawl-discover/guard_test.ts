@@ -0,0 +1,74 @@
+// =============================================================================
+// Discovery Source Guard Tests
+// =============================================================================
+// Offline: LOCAL_SOURCE_ROOT is the shared test fixtures directory, and fetch
+// is replaced so no request leaves the machine. Hosts are IP literals, so no
+// DNS lookups are made either.
+// Run with: deno test supabase/functions
+// =============================================================================
+
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { fetchPublic, isPrivateAddress, resolveInRoot } from "./guard.ts";
+import { createLocalSource } from "./local.ts";
+
+const ROOT = new URL("../_shared/testdata", import.meta.url).pathname;
+
+Deno.test("local paths must resolve under the root", async () => {
+  const fixture = await resolveInRoot(ROOT, "noise-table.pdf");
+  assert(fixture.endsWith("/testdata/noise-table.pdf"), fixture);
+
+  for (const path of ["../parser.ts", "/etc/passwd", "missing.pdf", `${ROOT}/../../orchestrate`]) {
+    await assertRejects(() => resolveInRoot(ROOT, path), Error, "is not under LOCAL_SOURCE_ROOT");
+  }
+});
+
+Deno.test("local source lists PDFs under the root only", async () => {
+  const outcome = await createLocalSource({ type: "local", directory: "." }, ROOT).discover(10);
+  assertEquals(outcome.discovered_pdfs.map((pdf) => pdf.url.split("/").pop()), ["noise-table.pdf"]);
+  assert(outcome.discovered_pdfs[0].url.startsWith("file:///"));
+
+  await assertRejects(
+    () => createLocalSource({ type: "local", directory: ".." }, ROOT).discover(10),
+    Error,
+    "is not under LOCAL_SOURCE_ROOT"
+  );
+  await assertRejects(
+    () => createLocalSource({ type: "local", manifest: "/etc/hosts" }, undefined).discover(10),
+    Error,
+    "LOCAL_SOURCE_ROOT"
+  );
+});
+
+Deno.test("private, loopback and link-local addresses are recognized", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.20.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1",
+    "0.0.0.0", "::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe"]) {
+    assert(isPrivateAddress(address), address);
+  }
+  for (const address of ["93.184.216.34", "172.32.0.1", "2606:4700::6810:84e5", "::ffff:5db8:d822"]) {
+    assert(!isPrivateAddress(address), address);
+  }
+});
+
+Deno.test("fetchPublic refuses private hosts, other schemes and redirects to them", async () => {
+  const requested: string[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : String(input);
+    requested.push(url);
+    return Promise.resolve(
+      new Response(null, { status: 302, headers: { location: "http://169.254.169.254/latest/meta-data/" } })
+    );
+  };
+
+  try {
+    for (const url of ["http://127.0.0.1:8000/", "http://[::ffff:127.0.0.1]/", "http://localhost/", "file:///etc/passwd"]) {
+      await assertRejects(() => fetchPublic(url, false), Error);
+    }
+    assertEquals(requested, []);
+
+    await assertRejects(() => fetchPublic("http://93.184.216.34/eirs", false), Error, "not a public host");
+    assertEquals(requested, ["http://93.184.216.34/eirs"]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,414 @@
+// =============================================================================
+// Legistar Discovery Source
+// =============================================================================
+// Uses Legistar's OData API to find legislation and its PDF attachments.
+// file_numbers and since_days become a server-side $filter; search terms are
+// matched client-side (OData v3 has no contains()). Matters are paged with
+// $skip until enough PDFs are found or the result set runs out.
+// With events set, meetings (Events -> EventItems) in a date range and body
+// are walked instead, collecting agendas, minutes and agenda-item attachments.
+// Matter attachments carry the matter's sponsors (Matters/{id}/Sponsors) and
+// originating department (MatterBodyName) in their metadata.
+// =============================================================================
+
+import {
+  EventDiscoveryOptions,
+  FirecrawlDiscoveryResult,
+  Jurisdiction,
+  LegistarSourceConfig,
+} from "../_shared/types.ts";
+import { fetchOData, odataString, LegistarMatter, LegistarSponsor } from "../_shared/legistar.ts";
+import { getJurisdiction } from "../_shared/jurisdictions.ts";
+import { createPdfList, PdfList } from "../_shared/urls.ts";
+import { DiscoverySource, DiscoveryOutcome, classifyAttachment, isPdfLink } from "./sources.ts";
+
+interface LegistarAttachment {
+  MatterAttachmentId: number;
+  MatterAttachmentName: string;
+  MatterAttachmentHyperlink: string;
+  MatterAttachmentFileName: string;
+  MatterAttachmentMatterVersion: string;
+}
+
+interface LegistarEvent {
+  EventId: number;
+  EventBodyName: string;
+  EventDate: string;
+  EventAgendaFile: string | null;
+  EventMinutesFile: string | null;
+}
+
+interface LegistarEventItem {
+  EventItemId: number;
+  EventItemTitle: string | null;
+  EventItemMatterId: number | null;
+  EventItemMatterFile: string | null;
+  EventItemActionName: string | null;
+  EventItemMatterAttachments?: LegistarAttachment[];
+}
+
+// Legistar caps $top at 1000; MAX_PAGES bounds an unfiltered crawl
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 20;
+
+// Matched when a request names no search terms. orchestrate always sends
+// them, defaulting to its jurisdiction's default_search_terms.
+const DEFAULT_SEARCH_TERMS = ["housing", "zoning", "development", "residential", "EIR", "CEQA", "planning"];
+
+// Sponsor names by matter id; a matter's attachments share one lookup
+type SponsorLookup = (matterId: number) => Promise<string[]>;
+
+/**
+ * Legistar matters (or meetings) for one jurisdiction (default: San Francisco).
+ * Throws on an unknown jurisdiction.
+ */
+export function createLegistarSource(config: LegistarSourceConfig): DiscoverySource {
+  const jurisdiction = getJurisdiction(config.jurisdiction);
+
+  return {
+    type: "legistar",
+    discover(limit: number): Promise<DiscoveryOutcome> {
+      if (config.events) {
+        console.log(`[firecrawl-discover] Starting OData event discovery for ${jurisdiction.name}`);
+        return discoverFromEvents(jurisdiction, { ...config.events, since_days: config.since_days }, limit);
+      }
+
+      console.log(`[firecrawl-discover] Starting OData-based discovery for ${jurisdiction.name}`);
+      return discoverFromMatters(jurisdiction, config, limit);
+    },
+  };
+}
+
+/**
+ * Matters mode: attachments of the matters matching the file numbers,
+ * intro-date window and search terms
+ */
+async function discoverFromMatters(
+  jurisdiction: Jurisdiction,
+  config: LegistarSourceConfig,
+  limit: number
+): Promise<DiscoveryOutcome> {
+  const fileNumbers = config.file_numbers || [];
+  const searchTerms = config.search_terms || DEFAULT_SEARCH_TERMS;
+  const filter = buildMattersFilter(fileNumbers, config.since_days);
+
+  // An exact file-number lookup does not also need to match search terms
+  const searchTermsLower = fileNumbers.length > 0 ? [] : searchTerms.map(t => t.toLowerCase());
+  const matchesTerms = (matter: LegistarMatter) => {
+    if (searchTermsLower.length === 0) return true;
+    const title = (matter.MatterTitle || "").toLowerCase();
+    const name = (matter.MatterName || "").toLowerCase();
+    const typeName = (matter.MatterTypeName || "").toLowerCase();
+    return searchTermsLower.some(term =>
+      title.includes(term) || name.includes(term) || typeName.includes(term)
+    );
+  };
+
+  const discovered = createPdfList();
+  const discoveredPdfs = discovered.pdfs;
+  const sponsorsOf = createSponsorLookup(jurisdiction);
+  let pagesFetched = 0;
+  let totalMattersFetched = 0;
+  let mattersMatched = 0;
+  let mattersSearched = 0;
+
+  // Step 1: Page through matters; Step 2: get attachments for each match
+  while (discoveredPdfs.length < limit && pagesFetched < MAX_PAGES) {
+    const page = await fetchMattersPage(jurisdiction, filter, pagesFetched * PAGE_SIZE);
+    pagesFetched++;
+    totalMattersFetched += page.length;
+
+    const matters = page.filter(matchesTerms);
+    mattersMatched += matters.length;
+    console.log(
+      `[firecrawl-discover] Page ${pagesFetched}: ${page.length} matters, ${matters.length} matching`
+    );
+
+    for (const matter of matters) {
+      if (discoveredPdfs.length >= limit) break;
+      mattersSearched++;
+      await collectAttachments(jurisdiction, matter, sponsorsOf, discovered, limit);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  console.log(`[firecrawl-discover] Discovered ${discoveredPdfs.length} PDF attachments`);
+
+  return {
+    discovered_pdfs: discoveredPdfs,
+    stats: {
+      jurisdiction: jurisdiction.id,
+      pages_fetched: pagesFetched,
+      matters_matched: mattersMatched,
+      matters_searched: mattersSearched,
+      total_matters_fetched: totalMattersFetched,
+      search_terms: searchTermsLower.length > 0 ? searchTerms : [],
+      file_numbers: fileNumbers,
+      since_days: config.since_days,
+    },
+  };
+}
+
+/**
+ * Events mode: agendas, minutes and agenda-item attachments from the
+ * meetings in a date range, optionally for one body
+ */
+async function discoverFromEvents(
+  jurisdiction: Jurisdiction,
+  options: EventDiscoveryOptions & { since_days?: number },
+  limit: number
+): Promise<DiscoveryOutcome> {
+  const today = new Date().toISOString().slice(0, 10);
+  const sinceDays = options.since_days || 30;
+  const fromDate = options.from_date ||
+    new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const toDate = options.to_date || today;
+
+  const clauses = [
+    `EventDate ge datetime'${fromDate}T00:00:00'`,
+    `EventDate le datetime'${toDate}T23:59:59'`,
+  ];
+  if (options.body_name) {
+    clauses.push(`EventBodyName eq ${odataString(options.body_name)}`);
+  }
+
+  const discovered = createPdfList();
+  const discoveredPdfs = discovered.pdfs;
+  const sponsorsOf = createSponsorLookup(jurisdiction);
+  let pagesFetched = 0;
+  let eventsSearched = 0;
+
+  // An attachment on several agenda items is listed once, with each item's matter
+  const add = (pdf: FirecrawlDiscoveryResult) => {
+    if (discoveredPdfs.length < limit) discovered.add(pdf);
+  };
+
+  while (discoveredPdfs.length < limit && pagesFetched < MAX_PAGES) {
+    console.log(`[firecrawl-discover] Querying OData Events: ${clauses.join(" and ")}`);
+    const events = await fetchOData<LegistarEvent>(jurisdiction, "Events", {
+      $filter: clauses.join(" and "),
+      $orderby: "EventDate desc,EventId desc",
+      $top: String(PAGE_SIZE),
+      $skip: String(pagesFetched * PAGE_SIZE),
+    });
+    pagesFetched++;
+
+    for (const event of events) {
+      if (discoveredPdfs.length >= limit) break;
+      eventsSearched++;
+      await collectEventDocuments(jurisdiction, event, sponsorsOf, add);
+    }
+
+    if (events.length < PAGE_SIZE) break;
+  }
+
+  console.log(`[firecrawl-discover] Discovered ${discoveredPdfs.length} meeting PDFs from ${eventsSearched} events`);
+
+  return {
+    discovered_pdfs: discoveredPdfs,
+    stats: {
+      jurisdiction: jurisdiction.id,
+      pages_fetched: pagesFetched,
+      events_searched: eventsSearched,
+      from_date: fromDate,
+      to_date: toDate,
+      body_name: options.body_name,
+    },
+  };
+}
+
+/**
+ * Add a meeting's agenda, minutes and item attachments. Agenda and minutes
+ * belong to no single file, so their file_number is empty.
+ */
+async function collectEventDocuments(
+  jurisdiction: Jurisdiction,
+  event: LegistarEvent,
+  sponsorsOf: SponsorLookup,
+  add: (pdf: FirecrawlDiscoveryResult) => void
+): Promise<void> {
+  const meetingDate = event.EventDate?.slice(0, 10);
+  const eventMetadata = {
+    meeting_date: meetingDate,
+    body_name: event.EventBodyName,
+    event_id: event.EventId,
+  };
+
+  console.log(`[firecrawl-discover] Getting documents for Event ${event.EventId}: ${event.EventBodyName} ${meetingDate}`);
+
+  const meetingFiles: Array<[string | null, string]> = [
+    [event.EventAgendaFile, "Agenda"],
+    [event.EventMinutesFile, "Minutes"],
+  ];
+  for (const [url, type] of meetingFiles) {
+    if (!url) continue;
+    add({
+      url,
+      title: `${event.EventBodyName} ${type} ${meetingDate}`,
+      file_number: "",
+      jurisdiction: jurisdiction.id,
+      attachment_type: type,
+      discovered_at: new Date().toISOString(),
+      metadata: { ...eventMetadata, legistar_id: String(event.EventId) },
+    });
+  }
+
+  try {
+    // Attachments=1 inlines each item's matter attachments
+    const items = await fetchOData<LegistarEventItem>(jurisdiction, `Events/${event.EventId}/EventItems`, {
+      Attachments: "1",
+    });
+
+    for (const item of items) {
+      let sponsors: string[] | undefined;
+      for (const attachment of item.EventItemMatterAttachments || []) {
+        const url = attachment.MatterAttachmentHyperlink;
+        const fileName = attachment.MatterAttachmentFileName || attachment.MatterAttachmentName || "";
+        if (!url || !isPdfLink(url, fileName)) continue;
+
+        if (!sponsors && item.EventItemMatterId) {
+          sponsors = await sponsorsOf(item.EventItemMatterId);
+        }
+
+        add({
+          url,
+          title: attachment.MatterAttachmentName || fileName,
+          file_number: item.EventItemMatterFile || "",
+          jurisdiction: jurisdiction.id,
+          attachment_type: classifyAttachment(attachment.MatterAttachmentName || fileName),
+          discovered_at: new Date().toISOString(),
+          metadata: {
+            ...eventMetadata,
+            legistar_id: String(attachment.MatterAttachmentId),
+            action: item.EventItemActionName || undefined,
+            matter_version: attachment.MatterAttachmentMatterVersion || undefined,
+            matter_id: item.EventItemMatterId || undefined,
+            matter_title: item.EventItemTitle || undefined,
+            sponsors: sponsors?.length ? sponsors : undefined,
+          },
+        });
+      }
+    }
+  } catch (err) {
+    console.error(`[firecrawl-discover] Error getting items for Event ${event.EventId}:`, err);
+  }
+}
+
+/**
+ * OData $filter for exact file numbers and/or an intro-date window
+ */
+function buildMattersFilter(fileNumbers: string[], sinceDays?: number): string | null {
+  const clauses: string[] = [];
+
+  if (fileNumbers.length > 0) {
+    const files = fileNumbers.map(file => `MatterFile eq ${odataString(file)}`);
+    clauses.push(files.length === 1 ? files[0] : `(${files.join(" or ")})`);
+  }
+
+  if (sinceDays && sinceDays > 0) {
+    const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+    clauses.push(`MatterIntroDate ge datetime'${since.toISOString().slice(0, 19)}'`);
+  }
+
+  return clauses.length > 0 ? clauses.join(" and ") : null;
+}
+
+/**
+ * Fetch one page of matters, newest first
+ */
+async function fetchMattersPage(
+  jurisdiction: Jurisdiction,
+  filter: string | null,
+  skip: number
+): Promise<LegistarMatter[]> {
+  const params: Record<string, string> = {
+    $orderby: "MatterIntroDate desc,MatterId desc",
+    $top: String(PAGE_SIZE),
+    $skip: String(skip),
+  };
+  if (filter) {
+    params.$filter = filter;
+  }
+
+  console.log(`[firecrawl-discover] Querying OData Matters: skip=${skip}${filter ? `, filter=${filter}` : ""}`);
+  return await fetchOData<LegistarMatter>(jurisdiction, "Matters", params);
+}
+
+/**
+ * Add a matter's PDF attachments to discovered, up to limit. An attachment
+ * another matter already listed gains this matter instead.
+ */
+async function collectAttachments(
+  jurisdiction: Jurisdiction,
+  matter: LegistarMatter,
+  sponsorsOf: SponsorLookup,
+  discovered: PdfList,
+  limit: number
+): Promise<void> {
+  console.log(`[firecrawl-discover] Getting attachments for Matter ${matter.MatterId}: ${matter.MatterFile}`);
+
+  try {
+    const attachments = await fetchOData<LegistarAttachment>(jurisdiction, `Matters/${matter.MatterId}/Attachments`);
+    const sponsors = attachments.length > 0 ? await sponsorsOf(matter.MatterId) : [];
+
+    for (const attachment of attachments) {
+      if (discovered.pdfs.length >= limit) break;
+
+      // Check if it's a PDF
+      const url = attachment.MatterAttachmentHyperlink;
+      const fileName = attachment.MatterAttachmentFileName || attachment.MatterAttachmentName || "";
+
+      if (url && isPdfLink(url, fileName)) {
+        discovered.add({
+          url,
+          title: attachment.MatterAttachmentName || fileName,
+          file_number: matter.MatterFile,
+          jurisdiction: jurisdiction.id,
+          attachment_type: classifyAttachment(attachment.MatterAttachmentName || fileName),
+          discovered_at: new Date().toISOString(),
+          metadata: {
+            matter_id: matter.MatterId,
+            matter_title: matter.MatterTitle,
+            matter_type: matter.MatterTypeName,
+            matter_status: matter.MatterStatusName,
+            intro_date: matter.MatterIntroDate,
+            body_name: matter.MatterBodyName,
+            department: matter.MatterBodyName || undefined,
+            sponsors: sponsors.length > 0 ? sponsors : undefined,
+            matter_version: attachment.MatterAttachmentMatterVersion || undefined,
+          },
+        });
+      }
+    }
+  } catch (err) {
+    console.error(`[firecrawl-discover] Error getting attachments for ${matter.MatterId}:`, err);
+  }
+}
+
+/**
+ * Memoized Matters/{id}/Sponsors lookup. A failed lookup logs and yields no
+ * sponsors rather than dropping the matter's attachments.
+ */
+function createSponsorLookup(jurisdiction: Jurisdiction): SponsorLookup {
+  const cache = new Map<number, Promise<string[]>>();
+
+  return (matterId: number) => {
+    let sponsors = cache.get(matterId);
+    if (!sponsors) {
+      sponsors = fetchOData<LegistarSponsor>(jurisdiction, `Matters/${matterId}/Sponsors`)
+        .then((rows) =>
+          rows
+            .sort((a, b) => a.MatterSponsorSequence - b.MatterSponsorSequence)
+            .map((row) => row.MatterSponsorName)
+            .filter((name) => !!name)
+        )
+        .catch((err) => {
+          console.error(`[firecrawl-discover] Error getting sponsors for Matter ${matterId}:`, err);
+          return [];
+        });
+      cache.set(matterId, sponsors);
+    }
+    return sponsors;
+  };
+}
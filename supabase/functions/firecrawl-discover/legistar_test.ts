@@ -0,0 +1,194 @@
+// =============================================================================
+// Legistar Discovery Source Tests
+// =============================================================================
+// Offline: fetch is replaced with a fake Legistar OData API that serves
+// matters, attachments and sponsors from memory and records each request.
+// Run with: deno test supabase/functions
+// =============================================================================
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createLegistarSource } from "./legistar.ts";
+import { DiscoveryOutcome } from "./sources.ts";
+
+interface FakeMatter {
+  MatterId: number;
+  MatterFile: string;
+  MatterName: string;
+  MatterTitle: string;
+  MatterTypeName: string;
+  MatterStatusName: string;
+  MatterIntroDate: string;
+  MatterBodyName: string;
+}
+
+function matter(id: number, title: string): FakeMatter {
+  return {
+    MatterId: id,
+    MatterFile: String(250000 + id),
+    MatterName: "",
+    MatterTitle: title,
+    MatterTypeName: "Ordinance",
+    MatterStatusName: "Passed",
+    MatterIntroDate: "2025-06-01T00:00:00",
+    MatterBodyName: "Land Use and Transportation Committee",
+  };
+}
+
+function attachment(id: number, name: string, fileName: string) {
+  return {
+    MatterAttachmentId: id,
+    MatterAttachmentName: name,
+    MatterAttachmentHyperlink: `https://sfgov.legistar.com/View.ashx?M=F&ID=${id}`,
+    MatterAttachmentFileName: fileName,
+    MatterAttachmentMatterVersion: "2",
+  };
+}
+
+/**
+ * Replaces fetch with a fake OData API for the duration of run. Matters are
+ * served in pages of $top from $skip; requests are returned for inspection.
+ * Each matter's EIR attachment has the id pdfIdOf gives it.
+ */
+async function withFakeLegistar(
+  matters: FakeMatter[],
+  run: () => Promise<void>,
+  pdfIdOf: (matterId: number) => number = (matterId) => matterId * 10
+): Promise<URL[]> {
+  const requests: URL[] = [];
+  const originalFetch = globalThis.fetch;
+
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    requests.push(url);
+
+    const path = url.pathname.replace("/v1/sfgov/", "");
+    let body: unknown[];
+    if (path === "Matters") {
+      const skip = Number(url.searchParams.get("$skip") || 0);
+      const top = Number(url.searchParams.get("$top") || matters.length);
+      body = matters.slice(skip, skip + top);
+    } else if (/^Matters\/\d+\/Attachments$/.test(path)) {
+      const id = Number(path.split("/")[1]);
+      body = [
+        attachment(pdfIdOf(id), `Environmental Impact Report ${id}`, `EIR_${id}.pdf`),
+        attachment(id * 10 + 1, `Presentation ${id}`, `Slides_${id}.pptx`),
+      ];
+    } else if (/^Matters\/\d+\/Sponsors$/.test(path)) {
+      body = [
+        { MatterSponsorName: "Supervisor Chen", MatterSponsorSequence: 1 },
+        { MatterSponsorName: "Mayor Lurie", MatterSponsorSequence: 0 },
+      ];
+    } else {
+      return Promise.resolve(new Response("Not found", { status: 404 }));
+    }
+
+    return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+  };
+
+  try {
+    await run();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+  return requests;
+}
+
+const mattersRequests = (requests: URL[]) =>
+  requests.filter((url) => url.pathname.endsWith("/Matters"));
+
+Deno.test("legistar source pages matters with $skip until a short page", async () => {
+  // A full first page (1000) with one match, then a short page with another
+  const matters = Array.from({ length: 1002 }, (_, index) =>
+    matter(index + 1, index === 5 || index === 1001 ? "Housing Element EIR" : "Street renaming")
+  );
+
+  let outcome!: DiscoveryOutcome;
+  const requests = await withFakeLegistar(matters, async () => {
+    outcome = await createLegistarSource({ type: "legistar", search_terms: ["housing"] }).discover(10);
+  });
+
+  const pages = mattersRequests(requests);
+  assertEquals(pages.map((url) => url.searchParams.get("$skip")), ["0", "1000"]);
+  assertEquals(pages[0].searchParams.get("$top"), "1000");
+  assertEquals(pages[0].searchParams.get("$orderby"), "MatterIntroDate desc,MatterId desc");
+  assertEquals(pages[0].searchParams.get("$filter"), null);
+
+  // Only the two matching matters are searched, and only their PDFs are kept
+  assertEquals(outcome.discovered_pdfs.map((pdf) => pdf.file_number), ["250006", "251002"]);
+  assertEquals(outcome.discovered_pdfs.map((pdf) => pdf.attachment_type), ["EIR", "EIR"]);
+  assertEquals(outcome.stats.pages_fetched, 2);
+  assertEquals(outcome.stats.matters_matched, 2);
+  assertEquals(outcome.stats.total_matters_fetched, 1002);
+
+  const [pdf] = outcome.discovered_pdfs;
+  assertEquals(pdf.jurisdiction, "sf");
+  assertEquals(pdf.metadata.sponsors, ["Mayor Lurie", "Supervisor Chen"]);
+  assertEquals(pdf.metadata.matter_version, "2");
+  assertEquals(pdf.metadata.department, "Land Use and Transportation Committee");
+});
+
+Deno.test("legistar source filters file numbers and intro date server-side", async () => {
+  const matters = [matter(1, "Street renaming"), matter(2, "Budget appropriation")];
+
+  let outcome!: DiscoveryOutcome;
+  const requests = await withFakeLegistar(matters, async () => {
+    outcome = await createLegistarSource({
+      type: "legistar",
+      file_numbers: ["250001", "O'Farrell-1"],
+      search_terms: ["housing"],
+      since_days: 30,
+    }).discover(10);
+  });
+
+  const pages = mattersRequests(requests);
+  assertEquals(pages.length, 1);
+
+  const filter = pages[0].searchParams.get("$filter")!;
+  assert(
+    filter.startsWith("(MatterFile eq '250001' or MatterFile eq 'O''Farrell-1') and MatterIntroDate ge datetime'"),
+    filter
+  );
+
+  // An exact file-number lookup ignores the search terms
+  assertEquals(outcome.discovered_pdfs.length, 2);
+  assertEquals(outcome.stats.search_terms, []);
+});
+
+Deno.test("legistar source stops at the PDF limit", async () => {
+  const matters = [matter(1, "Housing EIR"), matter(2, "Housing EIR"), matter(3, "Housing EIR")];
+
+  let outcome!: DiscoveryOutcome;
+  const requests = await withFakeLegistar(matters, async () => {
+    outcome = await createLegistarSource({ type: "legistar", search_terms: ["housing"] }).discover(2);
+  });
+
+  assertEquals(outcome.discovered_pdfs.length, 2);
+  // The third matter's attachments are never requested
+  assertEquals(requests.filter((url) => url.pathname.endsWith("/Attachments")).length, 2);
+});
+
+Deno.test("legistar source lists a PDF attached to several matters once, with each matter", async () => {
+  const matters = [matter(1, "Housing EIR"), matter(2, "Housing EIR"), matter(3, "Housing EIR")];
+
+  let outcome!: DiscoveryOutcome;
+  await withFakeLegistar(
+    matters,
+    async () => {
+      outcome = await createLegistarSource({ type: "legistar", search_terms: ["housing"] }).discover(10);
+    },
+    // Matters 1 and 3 share one EIR
+    (matterId) => (matterId === 3 ? 10 : matterId * 10)
+  );
+
+  assertEquals(outcome.discovered_pdfs.map((pdf) => pdf.url), [
+    "https://sfgov.legistar.com/View.ashx?M=F&ID=10",
+    "https://sfgov.legistar.com/View.ashx?M=F&ID=20",
+  ]);
+
+  const [shared, own] = outcome.discovered_pdfs;
+  assertEquals(shared.file_number, "250001");
+  assertEquals(shared.other_matters, [
+    { file_number: "250003", jurisdiction: "sf", matter_id: 3, matter_title: "Housing EIR", matter_version: "2" },
+  ]);
+  assertEquals(own.other_matters, undefined);
+});
@@ -0,0 +1,155 @@
+// =============================================================================
+// Local Directory / Manifest Discovery Source
+// =============================================================================
+// PDFs that are not on Legistar: a directory on the function's filesystem,
+// or a JSON manifest listing documents. A manifest is either an array of
+// entries or { "documents": [...] }; each entry has a url or path and may set
+// title, file_number, attachment_type and metadata.
+// Files are addressed by base_url when given (what Reducto needs to fetch
+// them), otherwise by file:// URL. Local files are only read under
+// LOCAL_SOURCE_ROOT (see guard.ts); without it, only a remote manifest of
+// URLs or base_url paths can be used.
+// =============================================================================
+
+import { FirecrawlDiscoveryResult, LocalSourceConfig } from "../_shared/types.ts";
+import { getJurisdiction } from "../_shared/jurisdictions.ts";
+import { DiscoverySource, DiscoveryOutcome, classifyAttachment, isPdfLink } from "./sources.ts";
+import { fetchPublic, resolveInRoot } from "./guard.ts";
+
+interface ManifestEntry {
+  url?: string;
+  path?: string;
+  title?: string;
+  file_number?: string;
+  attachment_type?: string;
+  metadata?: FirecrawlDiscoveryResult["metadata"];
+}
+
+/**
+ * PDFs from a local directory and/or manifest. Throws if neither is set.
+ */
+export function createLocalSource(
+  config: LocalSourceConfig,
+  root: string | undefined = Deno.env.get("LOCAL_SOURCE_ROOT")
+): DiscoverySource {
+  if (!config.directory && !config.manifest) {
+    throw new Error("A local source needs a directory or a manifest");
+  }
+  const jurisdiction = getJurisdiction(config.jurisdiction);
+
+  // The real path of a file the request names; relative paths are under baseDir
+  const inRoot = (path: string, baseDir?: string) => {
+    if (!root) {
+      throw new Error("Local files cannot be read: set LOCAL_SOURCE_ROOT to the directory they are in");
+    }
+    return resolveInRoot(root, path, baseDir);
+  };
+
+  return {
+    type: "local",
+    async discover(limit: number): Promise<DiscoveryOutcome> {
+      const discoveredPdfs: FirecrawlDiscoveryResult[] = [];
+      const seenUrls = new Set<string>();
+      let manifestEntries = 0;
+      let directoryFiles = 0;
+
+      const add = async (entry: ManifestEntry, baseDir?: string) => {
+        if ((!entry.url && !entry.path) || discoveredPdfs.length >= limit) return;
+        // A file:// entry would read past LOCAL_SOURCE_ROOT; local files are listed by path
+        if (entry.url && !isRemote(entry.url)) {
+          console.warn(`[firecrawl-discover] Skipping manifest entry that is not an http(s) URL: ${entry.url}`);
+          return;
+        }
+
+        const url = entry.url ||
+          (config.base_url
+            ? joinUrl(config.base_url, entry.path!)
+            : new URL(`file://${await inRoot(entry.path!, baseDir)}`).href);
+        if (seenUrls.has(url)) return;
+        seenUrls.add(url);
+
+        const name = entry.title || decodeURIComponent(url.split("/").pop() || url);
+        discoveredPdfs.push({
+          url,
+          title: name,
+          file_number: entry.file_number || config.file_number || "",
+          jurisdiction: jurisdiction.id,
+          attachment_type: entry.attachment_type || classifyAttachment(name),
+          discovered_at: new Date().toISOString(),
+          metadata: entry.metadata || {},
+        });
+      };
+
+      if (config.manifest) {
+        console.log(`[firecrawl-discover] Reading manifest ${config.manifest}`);
+        const manifestPath = isRemote(config.manifest) ? undefined : await inRoot(config.manifest);
+        const entries = await readManifest(manifestPath || config.manifest);
+        manifestEntries = entries.length;
+        const manifestDir = manifestPath && dirname(manifestPath);
+        for (const entry of entries) await add(entry, manifestDir);
+      }
+
+      if (config.directory) {
+        console.log(`[firecrawl-discover] Listing PDFs in ${config.directory}`);
+        const directory = await inRoot(config.directory);
+        const names: string[] = [];
+        for await (const item of Deno.readDir(directory)) {
+          if (item.isFile && isPdfLink(item.name)) names.push(item.name);
+        }
+        directoryFiles = names.length;
+        for (const name of names.sort()) await add({ path: name }, directory);
+      }
+
+      console.log(`[firecrawl-discover] Discovered ${discoveredPdfs.length} local PDFs`);
+
+      return {
+        discovered_pdfs: discoveredPdfs,
+        stats: {
+          jurisdiction: jurisdiction.id,
+          manifest_entries: manifestEntries,
+          directory_files: directoryFiles,
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Load a manifest from a resolved local path or a public http(s) URL
+ */
+async function readManifest(location: string): Promise<ManifestEntry[]> {
+  let text: string;
+  if (isRemote(location)) {
+    const response = await fetchPublic(location);
+    if (!response.ok) {
+      throw new Error(`Manifest fetch failed: ${response.status} - ${await response.text()}`);
+    }
+    text = await response.text();
+  } else {
+    text = await Deno.readTextFile(location);
+  }
+
+  const manifest = JSON.parse(text);
+  const entries = Array.isArray(manifest) ? manifest : manifest.documents;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Manifest ${location} must be an array or { "documents": [...] }`);
+  }
+  return entries;
+}
+
+/**
+ * URL of a file under baseUrl
+ */
+function joinUrl(baseUrl: string, path: string): string {
+  const relative = path.split("/").map(encodeURIComponent).join("/");
+  return `${baseUrl.replace(/\/$/, "")}/${relative}`;
+}
+
+function isRemote(location: string): boolean {
+  return /^https?:\/\//i.test(location);
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index > 0 ? path.slice(0, index) : "/";
+}
@@ -0,0 +1,50 @@
+// =============================================================================
+// Discovery Sources
+// =============================================================================
+// A DiscoverySource finds candidate PDFs somewhere - Legistar, a local folder
+// or manifest, or a crawled website - and returns them as discovery results.
+// Implementations live next to this file (legistar.ts, local.ts, crawl.ts).
+// =============================================================================
+
+import { DiscoverySourceType, FirecrawlDiscoveryResult } from "../_shared/types.ts";
+
+export interface DiscoveryOutcome {
+  discovered_pdfs: FirecrawlDiscoveryResult[];
+  // Source-specific counters, e.g. pages_fetched or matters_matched
+  stats: Record<string, unknown>;
+}
+
+export interface DiscoverySource {
+  type: DiscoverySourceType;
+  /** Find up to limit PDFs */
+  discover(limit: number): Promise<DiscoveryOutcome>;
+}
+
+/**
+ * True if a URL or file name points at a PDF
+ */
+export function isPdfLink(...names: string[]): boolean {
+  return names.some((name) => !!name && name.toLowerCase().includes(".pdf"));
+}
+
+/**
+ * Guess a document's type from its name or URL
+ */
+export function classifyAttachment(nameOrUrl: string): string {
+  const lower = nameOrUrl.toLowerCase();
+  if (lower.includes("eir") || lower.includes("environmental impact")) return "EIR";
+  if (lower.includes("staff report") || lower.includes("staff_report")) return "Staff Report";
+  if (lower.includes("ordinance")) return "Ordinance";
+  if (lower.includes("resolution")) return "Resolution";
+  if (lower.includes("planning") || lower.includes("commission")) return "Planning Commission";
+  if (lower.includes("noise")) return "Noise Study";
+  if (lower.includes("traffic") || lower.includes("transportation")) return "Traffic Study";
+  if (lower.includes("shadow")) return "Shadow Analysis";
+  if (lower.includes("geotech")) return "Geotechnical Report";
+  if (lower.includes("ceqa")) return "CEQA Document";
+  if (lower.includes("hearing") || lower.includes("notice")) return "Public Notice";
+  if (lower.includes("executive summary")) return "Executive Summary";
+  if (lower.includes("motion")) return "Motion";
+  if (lower.includes("amendment")) return "Amendment";
+  return "Attachment";
+}
@@ -0,0 +1,263 @@
+// =============================================================================
+// Legistar Matter History & Votes Edge Function
+// =============================================================================
+// Reads a file's legislative history from Legistar's Histories endpoint and
+// the roll-call votes behind each voted action (Events -> EventItems -> Votes),
+// and stores them as structured records linked to jurisdiction + file_number.
+// The matter's Legistar relations are added to the related-matter graph.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { Jurisdiction, MatterAction, MatterRelation, MatterVote } from "../_shared/types.ts";
+import { createResponse, handleCors } from "../_shared/utils.ts";
+import { fetchOData, odataString, LegistarMatter } from "../_shared/legistar.ts";
+import { saveMatterActions } from "../_shared/history.ts";
+import { saveRelations } from "../_shared/relations.ts";
+import { getJurisdiction } from "../_shared/jurisdictions.ts";
+
+interface HistoryRequest {
+  jurisdiction?: string;  // Default: San Francisco
+  file_numbers: string[];
+  include_votes?: boolean;  // Fetch roll-call votes (default: true)
+  include_relations?: boolean;  // Fetch related matters (default: true)
+}
+
+interface HistoryResponse {
+  jurisdiction: string;
+  file_numbers: string[];
+  matters_found: number;
+  actions_stored: number;
+  votes_found: number;
+  relations_stored: number;
+  not_found: string[];
+}
+
+interface LegistarHistory {
+  MatterHistoryId: number;
+  MatterHistoryActionDate: string;
+  MatterHistoryActionName: string | null;
+  MatterHistoryActionText: string | null;
+  MatterHistoryActionBodyName: string | null;
+  MatterHistoryPassedFlag: number | null;
+  MatterHistoryPassedFlagName: string | null;
+  MatterHistoryMoverName: string | null;
+  MatterHistorySeconderName: string | null;
+  MatterHistoryTally: string | null;
+  MatterHistoryEventId: number | null;
+  MatterHistoryAgendaSequence: number | null;
+  MatterHistoryRollCallFlag: number | null;
+  MatterHistoryVersion: string | null;
+}
+
+interface LegistarEventItem {
+  EventItemId: number;
+  EventItemMatterId: number | null;
+  EventItemAgendaSequence: number | null;
+}
+
+interface LegistarMatterRelation {
+  MatterRelationId: number;
+  MatterRelationMatterId: number;
+}
+
+interface LegistarVote {
+  VotePersonName: string;
+  VoteValueName: string;
+}
+
+serve(async (req: Request) => {
+  const startTime = Date.now();
+
+  // Handle CORS
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    if (req.method !== "POST") {
+      return createResponse(null, "Method not allowed. Use POST.", startTime);
+    }
+
+    const body: HistoryRequest = await req.json();
+
+    if (!body.file_numbers || body.file_numbers.length === 0) {
+      return createResponse(null, "Missing file_numbers", startTime);
+    }
+
+    const jurisdiction = getJurisdiction(body.jurisdiction);
+    const includeVotes = body.include_votes !== false;
+    const includeRelations = body.include_relations !== false;
+    const result: HistoryResponse = {
+      jurisdiction: jurisdiction.id,
+      file_numbers: body.file_numbers,
+      matters_found: 0,
+      actions_stored: 0,
+      votes_found: 0,
+      relations_stored: 0,
+      not_found: [],
+    };
+
+    for (const fileNumber of body.file_numbers) {
+      const [matter] = await fetchOData<LegistarMatter>(jurisdiction, "Matters", {
+        $filter: `MatterFile eq ${odataString(fileNumber)}`,
+      });
+
+      if (!matter) {
+        console.warn(`[legistar-history] No matter found for File ${fileNumber}`);
+        result.not_found.push(fileNumber);
+        continue;
+      }
+
+      result.matters_found++;
+      console.log(`[legistar-history] Fetching history for File ${fileNumber} (Matter ${matter.MatterId})`);
+
+      const histories = await fetchOData<LegistarHistory>(jurisdiction, `Matters/${matter.MatterId}/Histories`);
+      const ingestedAt = new Date().toISOString();
+      const actions: MatterAction[] = [];
+
+      // Event items are shared by every action taken at the same meeting
+      const eventItems = new Map<number, LegistarEventItem[]>();
+
+      for (const history of histories) {
+        let votes: MatterVote[] = [];
+
+        if (includeVotes && isRollCall(history)) {
+          try {
+            votes = await fetchVotes(jurisdiction, matter.MatterId, history, eventItems);
+            result.votes_found += votes.length;
+          } catch (err) {
+            console.error(`[legistar-history] Error getting votes for history ${history.MatterHistoryId}:`, err);
+          }
+        }
+
+        actions.push(toMatterAction(jurisdiction.id, fileNumber, matter.MatterId, history, votes, ingestedAt));
+      }
+
+      result.actions_stored += await saveMatterActions(actions);
+      console.log(`[legistar-history] File ${fileNumber}: ${actions.length} actions`);
+
+      if (includeRelations) {
+        try {
+          const relations = await fetchRelations(jurisdiction, fileNumber, matter);
+          result.relations_stored += await saveRelations(relations);
+          console.log(`[legistar-history] File ${fileNumber}: ${relations.length} related matters`);
+        } catch (err) {
+          console.error(`[legistar-history] Error getting relations for File ${fileNumber}:`, err);
+        }
+      }
+    }
+
+    return createResponse<HistoryResponse>(result, null, startTime);
+
+  } catch (error) {
+    console.error(`[legistar-history] Error:`, error);
+    return createResponse(null, (error as Error).message, startTime);
+  }
+});
+
+/**
+ * True if the action was decided by a recorded vote
+ */
+function isRollCall(history: LegistarHistory): boolean {
+  return !!history.MatterHistoryEventId &&
+    (history.MatterHistoryRollCallFlag === 1 || !!history.MatterHistoryTally);
+}
+
+/**
+ * Find the agenda item the action was taken on and read its roll call.
+ * No votes if the event has no item at the action's agenda sequence.
+ */
+async function fetchVotes(
+  jurisdiction: Jurisdiction,
+  matterId: number,
+  history: LegistarHistory,
+  eventItems: Map<number, LegistarEventItem[]>
+): Promise<MatterVote[]> {
+  const eventId = history.MatterHistoryEventId!;
+
+  if (!eventItems.has(eventId)) {
+    eventItems.set(
+      eventId,
+      await fetchOData<LegistarEventItem>(jurisdiction, `Events/${eventId}/EventItems`, {
+        $filter: `EventItemMatterId eq ${matterId}`,
+      })
+    );
+  }
+
+  // A matter can be on an event's agenda more than once; any other item's
+  // roll call would belong to a different action
+  const item = eventItems.get(eventId)!.find(
+    (candidate) => candidate.EventItemAgendaSequence === history.MatterHistoryAgendaSequence
+  );
+  if (!item) return [];
+
+  const votes = await fetchOData<LegistarVote>(jurisdiction, `EventItems/${item.EventItemId}/Votes`);
+  return votes.map((vote) => ({
+    person_name: vote.VotePersonName,
+    value: vote.VoteValueName,
+  }));
+}
+
+/**
+ * The matter's Legistar relations, resolved to file numbers
+ */
+async function fetchRelations(
+  jurisdiction: Jurisdiction,
+  fileNumber: string,
+  matter: LegistarMatter
+): Promise<MatterRelation[]> {
+  const links = await fetchOData<LegistarMatterRelation>(
+    jurisdiction,
+    `Matters/${matter.MatterId}/Relations`
+  );
+  const discoveredAt = new Date().toISOString();
+  const relations: MatterRelation[] = [];
+
+  for (const link of links) {
+    const [related] = await fetchOData<LegistarMatter>(jurisdiction, "Matters", {
+      $filter: `MatterId eq ${link.MatterRelationMatterId}`,
+    });
+    if (!related?.MatterFile) continue;
+
+    relations.push({
+      jurisdiction: jurisdiction.id,
+      file_number: fileNumber,
+      related_file_number: related.MatterFile,
+      source: "legistar",
+      matter_id: matter.MatterId,
+      related_matter_id: related.MatterId,
+      discovered_at: discoveredAt,
+    });
+  }
+
+  return relations;
+}
+
+function toMatterAction(
+  jurisdiction: string,
+  fileNumber: string,
+  matterId: number,
+  history: LegistarHistory,
+  votes: MatterVote[],
+  ingestedAt: string
+): MatterAction {
+  return {
+    jurisdiction,
+    file_number: fileNumber,
+    matter_id: matterId,
+    history_id: history.MatterHistoryId,
+    action_date: history.MatterHistoryActionDate,
+    action_name: history.MatterHistoryActionName || "",
+    action_text: history.MatterHistoryActionText || undefined,
+    body_name: history.MatterHistoryActionBodyName || undefined,
+    passed: history.MatterHistoryPassedFlag === null ? undefined : history.MatterHistoryPassedFlag === 1,
+    passed_label: history.MatterHistoryPassedFlagName || undefined,
+    mover: history.MatterHistoryMoverName || undefined,
+    seconder: history.MatterHistorySeconderName || undefined,
+    tally: history.MatterHistoryTally || undefined,
+    event_id: history.MatterHistoryEventId || undefined,
+    agenda_sequence: history.MatterHistoryAgendaSequence ?? undefined,
+    matter_version: history.MatterHistoryVersion || undefined,
+    votes,
+    ingested_at: ingestedAt,
+  };
+}
@@ -3,12 +3,35 @@
 // =============================================================================
 // Handles vector persistence with scalar quantization (int8) for RAM efficiency
 // Supports both upsert operations and vector search queries
+// Chunks of older matter versions are marked superseded once a newer version
+// of the same file is stored; search skips them unless include_superseded.
+// Search can also be narrowed to matters by sponsor or originating department.
+// A PDF found again under another URL is not stored twice: "link" adds the
+// copy's file to the original's chunks (linked_files), and file_numbers
+// filters match linked files too. A PDF attached to several matters is
+// linked the same way to each matter after the one it is stored under.
+// Search results come with facet counts by classified attachment type.
+// Tables parsed from the PDFs are stored alongside the chunks (upsert with
+// "tables"), fetched by id ("get_table") and searched cell by cell
+// ("search_tables").
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { MongoClient, ServerApiVersion } from "npm:mongodb@6.3.0";
-import { ZoningDocument, VectorSearchResult, BoundingBox } from "../_shared/types.ts";
+import { Collection } from "npm:mongodb@6.3.0";
+import {
+  ZoningDocument,
+  VectorSearchResult,
+  BoundingBox,
+  ChunkWord,
+  DocumentLink,
+  DocumentTable,
+  SearchFacets,
+  TableSearchResult,
+} from "../_shared/types.ts";
 import { createResponse, handleCors, getRequiredEnv, chunkArray } from "../_shared/utils.ts";
+import { getDatabase, distinctValues, CHUNKS_COLLECTION, TABLES_COLLECTION } from "../_shared/mongo.ts";
+import { DEFAULT_JURISDICTION } from "../_shared/jurisdictions.ts";
+import { compareMatterVersions } from "../_shared/legistar.ts";
 
 interface UpsertRequest {
   action: "upsert";
@@ -16,12 +39,19 @@ interface UpsertRequest {
     text: string;
     embedding: number[];
     file_number: string;
+    jurisdiction?: string;
+    matter_version?: string;
     source_url: string;
     page_number: number;
     bbox: BoundingBox;
     chunk_index: number;
+    words?: ChunkWord[];
     metadata?: Record<string, unknown>;
   }>;
+  // Remove stored chunks of these sources that are not in this upsert
+  replace_sources?: boolean;
+  // The sources' tables; replaces every table stored for them
+  tables?: DocumentTable[];
 }
 
 interface SearchRequest {
@@ -29,50 +59,66 @@ interface SearchRequest {
   query_embedding?: number[];
   query_text?: string; // Support text queries (will generate embedding)
   file_numbers?: string[];
+  jurisdictions?: string[];
+  sponsors?: string[];     // Any sponsor name containing one of these (case-insensitive)
+  departments?: string[];  // Originating department containing one of these (case-insensitive)
+  attachment_types?: string[];  // Classified attachment type, exact
+  include_superseded?: boolean;  // Also return chunks of older matter versions
   limit?: number;
   min_score?: number;
 }
 
+interface LinkRequest {
+  action: "link";
+  source_url: string;  // The stored original
+  links: DocumentLink[];
+}
+
+interface GetTableRequest {
+  action: "get_table";
+  table_id: string;
+}
+
+interface SearchTablesRequest {
+  action: "search_tables";
+  query_text: string;  // Matched case-insensitively within cell text
+  file_numbers?: string[];
+  jurisdictions?: string[];
+  source_url?: string;
+  limit?: number;
+}
+
 interface UpsertResponse {
   upserted_count: number;
   modified_count: number;
+  removed_count: number;
+  superseded_count: number;
+  tables_stored: number;
+}
+
+interface GetTableResponse {
+  table: DocumentTable;
+}
+
+interface SearchTablesResponse {
+  results: TableSearchResult[];
+  total_found: number;
+}
+
+interface LinkResponse {
+  linked_chunks: number;
 }
 
 interface SearchResponse {
   results: VectorSearchResult[];
   total_found: number;
+  facets: SearchFacets;
 }
 
-type RequestBody = UpsertRequest | SearchRequest;
+type RequestBody = UpsertRequest | LinkRequest | SearchRequest | GetTableRequest | SearchTablesRequest;
 
 // MongoDB configuration
 const BATCH_SIZE = 100;
-const DATABASE_NAME = "sf_zoning";
-const COLLECTION_NAME = "document_chunks"; // Match local script
-
-// MongoDB client singleton
-let cachedClient: MongoClient | null = null;
-
-async function getMongoClient(): Promise<MongoClient> {
-  if (cachedClient) {
-    return cachedClient;
-  }
-
-  const MONGODB_URI = getRequiredEnv("MONGODB_URI");
-
-  cachedClient = new MongoClient(MONGODB_URI, {
-    serverApi: {
-      version: ServerApiVersion.v1,
-      strict: true,
-      deprecationErrors: true,
-    },
-  });
-
-  await cachedClient.connect();
-  console.log("[mongo-upsert] Connected to MongoDB Atlas");
-
-  return cachedClient;
-}
 
 serve(async (req: Request) => {
   const startTime = Date.now();
@@ -91,11 +137,24 @@ serve(async (req: Request) => {
     if (body.action === "upsert") {
       const result = await handleUpsert(body as UpsertRequest);
       return createResponse(result, null, startTime);
+    } else if (body.action === "link") {
+      const result = await handleLink(body as LinkRequest);
+      return createResponse(result, null, startTime);
     } else if (body.action === "search") {
       const result = await handleSearch(body as SearchRequest);
       return createResponse(result, null, startTime);
+    } else if (body.action === "get_table") {
+      const result = await handleGetTable(body as GetTableRequest);
+      return createResponse(result, null, startTime);
+    } else if (body.action === "search_tables") {
+      const result = await handleSearchTables(body as SearchTablesRequest);
+      return createResponse(result, null, startTime);
     } else {
-      return createResponse(null, "Invalid action. Use 'upsert' or 'search'.", startTime);
+      return createResponse(
+        null,
+        "Invalid action. Use 'upsert', 'link', 'search', 'get_table' or 'search_tables'.",
+        startTime
+      );
     }
   } catch (error) {
     console.error(`[mongo-upsert] Error:`, error);
@@ -111,9 +170,8 @@ async function handleUpsert(request: UpsertRequest): Promise<UpsertResponse> {
 
   console.log(`[mongo-upsert] Upserting ${documents.length} documents`);
 
-  const client = await getMongoClient();
-  const db = client.db(DATABASE_NAME);
-  const collection = db.collection(COLLECTION_NAME);
+  const db = await getDatabase();
+  const collection = db.collection(CHUNKS_COLLECTION);
 
   let totalUpserted = 0;
   let totalModified = 0;
@@ -139,10 +197,13 @@ async function handleUpsert(request: UpsertRequest): Promise<UpsertResponse> {
             embedding: quantizeEmbedding(doc.embedding),
             embedding_dimensions: doc.embedding.length,
             file_number: doc.file_number,
+            ...(doc.jurisdiction ? { jurisdiction: doc.jurisdiction } : {}),
+            ...(doc.matter_version ? { matter_version: doc.matter_version } : {}),
             source_url: doc.source_url,
             page_number: doc.page_number,
             bbox: doc.bbox,
             chunk_index: doc.chunk_index,
+            words: doc.words,
             metadata: {
               ...doc.metadata,
               embedded_at: new Date().toISOString(),
@@ -158,14 +219,141 @@ async function handleUpsert(request: UpsertRequest): Promise<UpsertResponse> {
     totalModified += result.modifiedCount;
   }
 
-  console.log(`[mongo-upsert] Upserted: ${totalUpserted}, Modified: ${totalModified}`);
+  let totalRemoved = 0;
+
+  if (request.replace_sources) {
+    const indexesBySource = new Map<string, number[]>();
+    for (const doc of documents) {
+      if (!indexesBySource.has(doc.source_url)) {
+        indexesBySource.set(doc.source_url, []);
+      }
+      indexesBySource.get(doc.source_url)!.push(doc.chunk_index);
+    }
+
+    for (const [sourceUrl, chunkIndexes] of indexesBySource) {
+      const result = await collection.deleteMany({
+        source_url: sourceUrl,
+        chunk_index: { $nin: chunkIndexes },
+      });
+      totalRemoved += result.deletedCount;
+
+      // A copy whose content changed is stored in its own right now. Its
+      // own chunks keep their links to the other matters it is attached to.
+      await collection.updateMany(
+        { source_url: { $ne: sourceUrl }, "linked_files.source_url": sourceUrl },
+        { $pull: { linked_files: { source_url: sourceUrl } } } as Record<string, unknown>
+      );
+    }
+  }
+
+  // Re-rank the versions of every file this upsert touched
+  const versionedFiles = new Map<string, { jurisdiction?: string; file_number: string }>();
+  for (const doc of documents) {
+    if (!doc.matter_version || !doc.file_number) continue;
+    versionedFiles.set(`${doc.jurisdiction}:${doc.file_number}`, {
+      jurisdiction: doc.jurisdiction,
+      file_number: doc.file_number,
+    });
+  }
+
+  let totalSuperseded = 0;
+  for (const file of versionedFiles.values()) {
+    totalSuperseded += await updateSupersession(collection, file.jurisdiction, file.file_number);
+  }
+
+  let tablesStored = 0;
+  if (request.tables) {
+    const tables = db.collection<DocumentTable>(TABLES_COLLECTION);
+    const sourceUrls = [...new Set(documents.map((doc) => doc.source_url))];
+    await tables.deleteMany({ source_url: { $in: sourceUrls } });
+    if (request.tables.length > 0) {
+      tablesStored = (await tables.insertMany(request.tables.map((table) => ({ ...table })))).insertedCount;
+    }
+  }
+
+  console.log(
+    `[mongo-upsert] Upserted: ${totalUpserted}, Modified: ${totalModified}, ` +
+    `Removed: ${totalRemoved}, Superseded: ${totalSuperseded}, Tables: ${tablesStored}`
+  );
 
   return {
     upserted_count: totalUpserted,
     modified_count: totalModified,
+    removed_count: totalRemoved,
+    superseded_count: totalSuperseded,
+    tables_stored: tablesStored,
   };
 }
 
+/**
+ * Link other files to a stored PDF's chunks: copies found under another URL,
+ * and other matters the PDF itself is attached to. Chunks keep one entry per
+ * file, so relinking a file replaces its earlier link and one URL can be
+ * linked under several file numbers. A chunk is not linked to its own file.
+ */
+async function handleLink(request: LinkRequest): Promise<LinkResponse> {
+  const { source_url, links } = request;
+
+  if (!source_url || !links || links.length === 0) {
+    throw new Error("link needs a source_url and at least one link");
+  }
+
+  console.log(`[mongo-upsert] Linking ${links.length} files to ${source_url}`);
+
+  const db = await getDatabase();
+  const collection = db.collection(CHUNKS_COLLECTION);
+  let linkedChunks = 0;
+
+  for (const link of links) {
+    const file = { file_number: link.file_number, ...(link.jurisdiction ? { jurisdiction: link.jurisdiction } : {}) };
+    await collection.updateMany(
+      { source_url },
+      { $pull: { linked_files: file } } as Record<string, unknown>
+    );
+    const result = await collection.updateMany(
+      { source_url, file_number: { $ne: link.file_number } },
+      { $push: { linked_files: link } } as Record<string, unknown>
+    );
+    linkedChunks = Math.max(linkedChunks, result.modifiedCount);
+  }
+
+  return { linked_chunks: linkedChunks };
+}
+
+/**
+ * Mark a file's chunks superseded unless they belong to its newest stored
+ * matter version. Returns the number of chunks newly marked superseded.
+ */
+async function updateSupersession(
+  collection: Collection,
+  jurisdiction: string | undefined,
+  fileNumber: string
+): Promise<number> {
+  const fileFilter = { jurisdiction: jurisdiction ?? null, file_number: fileNumber };
+  const versions = (await distinctValues(collection, "matter_version", fileFilter))
+    .filter((version): version is string => typeof version === "string" && version !== "")
+    .sort(compareMatterVersions);
+  if (versions.length === 0) return 0;
+
+  const current = versions[versions.length - 1];
+  await collection.updateMany(
+    { ...fileFilter, matter_version: current, superseded: true },
+    { $set: { superseded: false } }
+  );
+
+  const older = versions.slice(0, -1);
+  if (older.length === 0) return 0;
+
+  const result = await collection.updateMany(
+    { ...fileFilter, matter_version: { $in: older }, superseded: { $ne: true } },
+    { $set: { superseded: true } }
+  );
+  if (result.modifiedCount > 0) {
+    console.log(`[mongo-upsert] File ${fileNumber}: version ${current} supersedes ${older.join(", ")}`);
+  }
+  return result.modifiedCount;
+}
+
 /**
  * Generate embedding for text using Voyage AI
  */
@@ -202,6 +390,11 @@ async function handleSearch(request: SearchRequest): Promise<SearchResponse> {
     query_embedding,
     query_text,
     file_numbers,
+    jurisdictions,
+    sponsors,
+    departments,
+    attachment_types,
+    include_superseded = false,
     limit = 10,
     min_score = 0.7,
   } = request;
@@ -218,20 +411,42 @@ async function handleSearch(request: SearchRequest): Promise<SearchResponse> {
 
   console.log(`[mongo-upsert] Searching with limit: ${limit}, min_score: ${min_score}`);
 
-  const client = await getMongoClient();
-  const db = client.db(DATABASE_NAME);
-  const collection = db.collection(COLLECTION_NAME);
+  const db = await getDatabase();
+  const collection = db.collection(CHUNKS_COLLECTION);
 
   let documents: Record<string, unknown>[];
+  let facets: SearchFacets;
 
   // Use cosine similarity search (works without vector index)
   // TODO: Switch to Atlas Vector Search once index is created
   {
     console.log(`[mongo-upsert] Using cosine similarity search`);
 
-    const filter = file_numbers && file_numbers.length > 0
-      ? { file_number: { $in: file_numbers }, embedding: { $exists: true } }
-      : { embedding: { $exists: true } };
+    const filter: Record<string, unknown> = { embedding: { $exists: true } };
+    if (file_numbers && file_numbers.length > 0) {
+      filter.$or = [
+        { file_number: { $in: file_numbers } },
+        { "linked_files.file_number": { $in: file_numbers } },
+      ];
+    }
+    if (jurisdictions && jurisdictions.length > 0) {
+      // Chunks stored before jurisdictions were tracked are all San Francisco
+      filter.jurisdiction = jurisdictions.includes(DEFAULT_JURISDICTION)
+        ? { $in: [...jurisdictions, null] }
+        : { $in: jurisdictions };
+    }
+    if (sponsors && sponsors.length > 0) {
+      filter["metadata.sponsors"] = { $in: sponsors.map(containsPattern) };
+    }
+    if (departments && departments.length > 0) {
+      filter["metadata.department"] = { $in: departments.map(containsPattern) };
+    }
+    if (attachment_types && attachment_types.length > 0) {
+      filter["metadata.classification.attachment_type"] = { $in: attachment_types };
+    }
+    if (!include_superseded) {
+      filter.superseded = { $ne: true };
+    }
 
     const allDocs = await collection.find(filter).limit(500).toArray();
     console.log(`[mongo-upsert] Found ${allDocs.length} docs with embeddings`);
@@ -248,12 +463,15 @@ async function handleSearch(request: SearchRequest): Promise<SearchResponse> {
       return dot / (Math.sqrt(magA) * Math.sqrt(magB));
     };
 
-    documents = allDocs
+    const matching = allDocs
       .map(doc => ({
         ...doc,
         score: cosineSim(query_embedding, doc.embedding as number[]),
       }))
-      .filter(doc => doc.score >= min_score)
+      .filter(doc => doc.score >= min_score);
+
+    facets = countFacets(matching);
+    documents = matching
       .sort((a, b) => (b.score as number) - (a.score as number))
       .slice(0, limit);
 
@@ -266,10 +484,15 @@ async function handleSearch(request: SearchRequest): Promise<SearchResponse> {
       text: doc.text,
       embedding: [], // Don't return embedding
       file_number: doc.file_number,
+      jurisdiction: (doc.jurisdiction as string | undefined) ?? DEFAULT_JURISDICTION,
+      matter_version: doc.matter_version,
+      superseded: doc.superseded === true,
+      linked_files: (doc.linked_files as DocumentLink[] | undefined) ?? [],
       source_url: doc.source_url,
       page_number: doc.page_number,
       bbox: doc.bbox,
       chunk_index: doc.chunk_index,
+      words: doc.words as ChunkWord[] | undefined,
       metadata: doc.metadata,
     },
     score: doc.score,
@@ -280,9 +503,125 @@ async function handleSearch(request: SearchRequest): Promise<SearchResponse> {
   return {
     results: results,
     total_found: results.length,
+    facets,
   };
 }
 
+/**
+ * A stored table by id
+ */
+async function handleGetTable(request: GetTableRequest): Promise<GetTableResponse> {
+  if (!request.table_id) {
+    throw new Error("get_table needs a table_id");
+  }
+
+  const db = await getDatabase();
+  const table = await db
+    .collection<DocumentTable>(TABLES_COLLECTION)
+    .findOne({ table_id: request.table_id }, { projection: { _id: 0 } });
+
+  if (!table) {
+    throw new Error(`Table not found: ${request.table_id}`);
+  }
+  return { table };
+}
+
+/**
+ * Tables with cells containing query_text, each with its matching cells
+ * labelled by their column header and row
+ */
+async function handleSearchTables(request: SearchTablesRequest): Promise<SearchTablesResponse> {
+  const { query_text, file_numbers, jurisdictions, source_url, limit = 20 } = request;
+
+  if (!query_text || !query_text.trim()) {
+    throw new Error("search_tables needs a query_text");
+  }
+
+  console.log(`[mongo-upsert] Searching table cells for: "${query_text}"`);
+
+  const pattern = containsPattern(query_text.trim());
+  const filter: Record<string, unknown> = { cells: { $elemMatch: { text: pattern } } };
+  if (file_numbers && file_numbers.length > 0) {
+    filter.file_number = { $in: file_numbers };
+  }
+  if (jurisdictions && jurisdictions.length > 0) {
+    filter.jurisdiction = jurisdictions.includes(DEFAULT_JURISDICTION)
+      ? { $in: [...jurisdictions, null] }
+      : { $in: jurisdictions };
+  }
+  if (source_url) {
+    filter.source_url = source_url;
+  }
+
+  const db = await getDatabase();
+  const tables = await db
+    .collection<DocumentTable>(TABLES_COLLECTION)
+    .find(filter, { projection: { _id: 0 } })
+    .sort({ source_url: 1, table_index: 1 })
+    .limit(limit)
+    .toArray();
+
+  const results: TableSearchResult[] = tables.map((table) => {
+    const label = (row: number, column: number) =>
+      table.cells.find((cell) => cell.row === row && cell.column === column)?.text;
+    // The lowest header row's cell covering each column
+    const header = (column: number) =>
+      table.cells
+        .filter((cell) => cell.header && cell.column <= column && column < cell.column + (cell.column_span || 1))
+        .sort((a, b) => b.row - a.row)[0]?.text;
+
+    return {
+      table_id: table.table_id,
+      source_url: table.source_url,
+      file_number: table.file_number,
+      jurisdiction: table.jurisdiction ?? DEFAULT_JURISDICTION,
+      page_number: table.page_number,
+      heading_path: table.heading_path,
+      rows: table.rows,
+      columns: table.columns,
+      matches: table.cells
+        .filter((cell) => pattern.test(cell.text))
+        .map((cell) => ({
+          ...cell,
+          column_header: cell.header ? undefined : header(cell.column),
+          row_label: cell.header || cell.column === 0 ? undefined : label(cell.row, 0),
+        })),
+    };
+  });
+
+  console.log(`[mongo-upsert] Found ${results.length} tables`);
+
+  return {
+    results,
+    total_found: results.length,
+  };
+}
+
+/**
+ * Count matching chunks by classified attachment type. Chunks stored before
+ * classification existed are left out.
+ */
+function countFacets(documents: Record<string, unknown>[]): SearchFacets {
+  const attachmentType: Record<string, number> = {};
+
+  for (const doc of documents) {
+    const metadata = doc.metadata as ZoningDocument["metadata"] | undefined;
+    const type = metadata?.classification?.attachment_type;
+    if (type) {
+      attachmentType[type] = (attachmentType[type] || 0) + 1;
+    }
+  }
+
+  return { attachment_type: attachmentType };
+}
+
+/**
+ * Case-insensitive regex matching values that contain text literally
+ */
+function containsPattern(text: string): RegExp {
+  return new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+}
+
 /**
  * Apply scalar quantization (int8) to embeddings for RAM efficiency
  *
@@ -336,6 +675,22 @@ db.zoning_chunks.createSearchIndex({
       {
         "type": "filter",
         "path": "page_number"
+      },
+      {
+        "type": "filter",
+        "path": "linked_files.file_number"
+      },
+      {
+        "type": "filter",
+        "path": "metadata.sponsors"
+      },
+      {
+        "type": "filter",
+        "path": "metadata.department"
+      },
+      {
+        "type": "filter",
+        "path": "metadata.classification.attachment_type"
       }
     ]
   }
@@ -2,32 +2,201 @@
 // Pipeline Orchestration Edge Function
 // =============================================================================
 // Coordinates the full pipeline: Discovery -> Parsing -> Embedding -> Storage
-// Runs SYNCHRONOUSLY (Edge Functions are stateless)
+// run_pipeline returns a job_id immediately and keeps working in the background
+// (see pipeline.ts); job state is persisted so check_status / list_jobs can
+// report progress. pause_job / cancel_job stop a running job at its next safe
+// point; resume_job picks a paused job up from its checkpoints. retry_failed
+// reprocesses only the PDFs on a job's failed_documents list. Watches re-run
+// discovery on a schedule (run_watches is called by a cron) and record a
+// change report for each run. ingest_history / get_history cover a file's
+// legislative history (actions and roll-call votes); related_files walks the
+// related-matter graph, which search can use to widen a file filter.
+// get_table returns a table parsed from a PDF as JSON or CSV (also as a GET
+// link, for downloads); search_tables finds tables by the text in their cells.
+// POST ?action=reducto_webhook&token=... is called by Reducto when an async
+// parse finishes, and resumes a job that paused to wait for it.
+// Every action takes a jurisdiction (see list_jurisdictions); it defaults to
+// San Francisco.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { PipelineJob, VectorSearchResult } from "../_shared/types.ts";
-import { createResponse, handleCors, getRequiredEnv, generateJobId } from "../_shared/utils.ts";
+import {
+  ChangeStatus,
+  ChunkingOptions,
+  DiscoverySourceConfig,
+  EventDiscoveryOptions,
+  DocumentTable,
+  Jurisdiction,
+  MatterAction,
+  ParserBackend,
+  PipelineJob,
+  PipelineJobStatus,
+  PipelinePlan,
+  PlannedDocument,
+  RelatedFile,
+  SearchFacets,
+  TableSearchResult,
+  UsageReport,
+  VectorSearchResult,
+  Watch,
+  ChangeReport,
+} from "../_shared/types.ts";
+import {
+  createResponse,
+  handleCors,
+  getRequiredEnv,
+  generateJobId,
+  generateWatchId,
+  runInBackground,
+} from "../_shared/utils.ts";
+import {
+  saveJob,
+  getJob,
+  listJobs,
+  isTerminalStatus,
+  isActiveStatus,
+  requestStop,
+  claimJob,
+  recordReductoCompletion,
+} from "../_shared/jobs.ts";
+import { detectChange, findStoredOriginal } from "../_shared/fingerprints.ts";
+import { findCheckpointByReductoJob } from "../_shared/checkpoints.ts";
+import { estimateCost, sumEstimates } from "../_shared/costs.ts";
+import { tableGrid, tableToCsv } from "../_shared/tables.ts";
+import { emptyUsage, getUsageReport } from "../_shared/usage.ts";
+import { createEventLog, getLastSeq, listEvents, formatSSE } from "../_shared/events.ts";
+import { getMatterActions } from "../_shared/history.ts";
+import { getJurisdiction, listJurisdictions } from "../_shared/jurisdictions.ts";
+import { getRelatedFiles, expandFileNumbers } from "../_shared/relations.ts";
+import {
+  saveWatch,
+  listWatches,
+  listDueWatches,
+  claimDueWatch,
+  deleteWatch,
+  listChangeReports,
+} from "../_shared/watches.ts";
+import {
+  runPipelineJob,
+  discoverPdfs,
+  ingestHistory,
+  selectWithinBudget,
+  RunOptions,
+  DEFAULT_PARSE_CONCURRENCY,
+  DEFAULT_EMBED_CONCURRENCY,
+} from "./pipeline.ts";
 
 interface PipelineRequest {
-  action: "run_pipeline" | "search";
-  // For run_pipeline
+  action:
+    | "run_pipeline"
+    | "plan_pipeline"
+    | "check_status"
+    | "list_jobs"
+    | "pause_job"
+    | "resume_job"
+    | "cancel_job"
+    | "retry_failed"
+    | "create_watch"
+    | "list_watches"
+    | "delete_watch"
+    | "run_watches"
+    | "list_change_reports"
+    | "ingest_history"
+    | "get_history"
+    | "related_files"
+    | "get_usage"
+    | "list_jurisdictions"
+    | "search"
+    | "get_table"
+    | "search_tables";
+  // For run_pipeline / plan_pipeline / create_watch / ingest_history / get_history
+  jurisdiction?: string;  // Registry id, e.g. "sf" (default)
+  // For run_pipeline / plan_pipeline
   file_numbers?: string[];
   search_terms?: string[];
+  since_days?: number;  // Only matters introduced in the last N days
+  events?: EventDiscoveryOptions;  // Discover from meetings instead of matters
+  sources?: DiscoverySourceConfig[];  // Legistar / local / crawl sources to combine
   max_credits?: number;
+  max_tokens?: number;
   pdf_limit?: number;  // Limit number of PDFs to process (default: 3)
-  // For search
+  parser?: ParserBackend | "auto";  // PDF parser (default: "auto", Reducto with pdf.js fallback)
+  chunking?: ChunkingOptions;  // Chunk sizes in tokens (default: 400 target, 50 overlap)
+  parse_concurrency?: number;  // Parallel Reducto parses (default: 3)
+  embed_concurrency?: number;  // Parallel Voyage embed calls (default: 2)
+  // For check_status / pause_job / resume_job / cancel_job / retry_failed / get_usage
+  // (or run_pipeline, to rerun an existing job)
+  job_id?: string;
+  // For create_watch (also uses file_numbers, search_terms, sources, pdf_limit, max_credits)
+  name?: string;
+  interval_minutes?: number;  // Time between runs (default: 1440, daily)
+  // For delete_watch / list_change_reports
+  watch_id?: string;
+  // For get_history / related_files (ingest_history uses file_numbers)
+  file_number?: string;
+  depth?: number;  // related_files: hops to follow (default: 1, max: 3)
+  // For get_usage (and get_history, to limit the date window)
+  group_by?: UsageReport["group_by"];
+  from_day?: string;  // YYYY-MM-DD
+  to_day?: string;    // YYYY-MM-DD
+  // For list_jobs (also uses limit)
+  status?: PipelineJobStatus;
+  // For search (also accepts a single jurisdiction)
+  jurisdictions?: string[];
+  include_superseded?: boolean;  // Also match older matter versions (default: false)
+  expand_related?: boolean;  // Widen file_numbers to directly related files
+  sponsors?: string[];     // Matters sponsored by any of these (name contains, case-insensitive)
+  departments?: string[];  // Matters from any of these originating departments
+  attachment_types?: string[];  // Classified attachment types (see search_facets)
   query?: string;
   limit?: number;
   min_score?: number;
+  // For get_table
+  table_id?: string;  // metadata.table_id of a search result
+  format?: "json" | "csv";  // Default: json
+  // For search_tables (also uses query, file_numbers, jurisdictions and limit)
+  source_url?: string;
 }
 
 interface PipelineResponse {
   job?: PipelineJob;
+  jobs?: PipelineJob[];
+  // run_pipeline / resume_job / retry_failed: stream from here to follow this run
+  last_seq?: number;
+  plan?: PipelinePlan;
+  usage?: UsageReport;
+  watch?: Watch;
+  watches?: Watch[];
+  change_reports?: ChangeReport[];
+  history?: {
+    file_number: string;
+    actions: MatterAction[];
+  };
+  ingested?: Record<string, unknown>;
+  related?: {
+    file_number: string;
+    jurisdiction: string;
+    related_files: RelatedFile[];
+  };
+  jurisdictions?: Jurisdiction[];
   search_results?: VectorSearchResult[];
+  search_facets?: SearchFacets;
+  table?: DocumentTable;
+  table_rows?: string[][];  // The table's cell text, row by row
+  table_results?: TableSearchResult[];
   message?: string;
 }
 
+const DEFAULT_MAX_CREDITS = 150;
+const DEFAULT_MAX_TOKENS = 1_000_000;
+const DEFAULT_PDF_LIMIT = 3;  // Process max 3 PDFs to stay within resource limits
+const DEFAULT_WATCH_INTERVAL_MINUTES = 24 * 60;
+
+// SSE streams poll the event log and close before the edge function times out;
+// EventSource reconnects on its own and resumes from Last-Event-ID
+const STREAM_POLL_INTERVAL_MS = 1000;
+const STREAM_MAX_DURATION_MS = 120_000;
+
 serve(async (req: Request) => {
   const startTime = Date.now();
 
@@ -38,23 +207,105 @@ serve(async (req: Request) => {
   try {
     const SUPABASE_URL = getRequiredEnv("SUPABASE_URL");
 
+    // EventSource can only issue GET requests
+    if (req.method === "GET") {
+      const params = new URL(req.url).searchParams;
+      if (params.get("action") === "stream") {
+        const lastEventId = req.headers.get("Last-Event-ID") || params.get("last_event_id");
+        return await streamJob(params.get("job_id"), Number(lastEventId) || 0, startTime);
+      }
+      if (params.get("action") === "get_table") {
+        return await getTable(params.get("table_id"), params.get("format"), SUPABASE_URL, startTime);
+      }
+    }
+
     if (req.method !== "POST") {
-      return createResponse(null, "Method not allowed. Use POST.", startTime);
+      return createResponse(null, "Method not allowed. Use POST (or GET ?action=stream / get_table).", startTime);
+    }
+
+    // Reducto posts its own payload; the action rides on the URL
+    const query = new URL(req.url).searchParams;
+    if (query.get("action") === "reducto_webhook") {
+      return await reductoWebhook(req, query.get("token"), SUPABASE_URL, startTime);
     }
 
     const body: PipelineRequest = await req.json();
 
     switch (body.action) {
       case "run_pipeline":
-        return await runPipelineSync(body, SUPABASE_URL, startTime);
+        return await startPipeline(body, SUPABASE_URL, startTime);
+
+      case "plan_pipeline":
+        return await planPipeline(body, SUPABASE_URL, startTime);
+
+      case "check_status":
+        return await checkStatus(body, startTime);
+
+      case "list_jobs":
+        return await listPipelineJobs(body, startTime);
+
+      case "pause_job":
+        return await pauseJob(body, startTime);
+
+      case "resume_job":
+        return await resumeJob(body, SUPABASE_URL, startTime);
+
+      case "cancel_job":
+        return await cancelJob(body, startTime);
+
+      case "retry_failed":
+        return await retryFailed(body, SUPABASE_URL, startTime);
+
+      case "create_watch":
+        return await createWatch(body, startTime);
+
+      case "list_watches":
+        return await listPipelineWatches(startTime);
+
+      case "delete_watch":
+        return await removeWatch(body, startTime);
+
+      case "run_watches":
+        return await runWatches(SUPABASE_URL, startTime);
+
+      case "list_change_reports":
+        return await getChangeReports(body, startTime);
+
+      case "ingest_history":
+        return await runHistoryIngest(body, SUPABASE_URL, startTime);
+
+      case "get_history":
+        return await getHistory(body, startTime);
+
+      case "related_files":
+        return await relatedFiles(body, startTime);
+
+      case "get_usage":
+        return await getUsage(body, startTime);
+
+      case "list_jurisdictions":
+        return createResponse<PipelineResponse>(
+          { jurisdictions: listJurisdictions() },
+          null,
+          startTime
+        );
 
       case "search":
         return await runSearch(body, SUPABASE_URL, startTime);
 
+      case "get_table":
+        return await getTable(body.table_id ?? null, body.format ?? null, SUPABASE_URL, startTime);
+
+      case "search_tables":
+        return await searchTables(body, SUPABASE_URL, startTime);
+
       default:
         return createResponse(
           null,
-          "Invalid action. Use 'run_pipeline' or 'search'.",
+          "Invalid action. Use 'run_pipeline', 'plan_pipeline', 'check_status', 'list_jobs', " +
+            "'pause_job', 'resume_job', 'cancel_job', 'retry_failed', 'create_watch', 'list_watches', " +
+            "'delete_watch', 'run_watches', 'list_change_reports', 'ingest_history', 'get_history', " +
+            "'related_files', 'get_usage', 'list_jurisdictions', 'search', 'get_table' or 'search_tables'.",
           startTime
         );
     }
@@ -65,246 +316,745 @@ serve(async (req: Request) => {
 });
 
 /**
- * Run the full pipeline SYNCHRONOUSLY
+ * Create and persist a job (or reopen an existing one), then run the
+ * pipeline in the background
  */
-async function runPipelineSync(
+async function startPipeline(
   request: PipelineRequest,
   supabaseUrl: string,
-  startTime: number
+  startTime: number,
+  options: RunOptions = {}
 ): Promise<Response> {
-  const fileNumbers = request.file_numbers;
-  const searchTerms = request.search_terms || [
-    "housing development",
-    "zoning amendment",
-    "environmental impact report",
-    "EIR",
-    "residential project"
-  ];
-  const maxCredits = request.max_credits || 150;
-  const pdfLimit = request.pdf_limit || 3;  // Process max 3 PDFs to stay within resource limits
-  const baseUrl = supabaseUrl.replace(/\/$/, "");
+  let job: PipelineJob;
+
+  if (request.job_id) {
+    // Rerun an existing job - per-PDF checkpoints let it resume where it stopped
+    const existing = await getJob(request.job_id);
+    if (!existing) {
+      return createResponse(null, `Job not found: ${request.job_id}`, startTime);
+    }
+    if (isActiveStatus(existing.status)) {
+      return createResponse(null, `Job ${existing.job_id} is still ${existing.status}`, startTime);
+    }
+
+    job = {
+      ...existing,
+      max_credits: request.max_credits || existing.max_credits || DEFAULT_MAX_CREDITS,
+      max_tokens: request.max_tokens || existing.max_tokens || DEFAULT_MAX_TOKENS,
+      usage: existing.usage || emptyUsage(),
+      concurrency: resolveConcurrency(request, existing.concurrency),
+      status: "pending",
+      error: undefined,
+      completed_at: undefined,
+      reducto_pending: undefined,
+    };
+
+    // Two resume / retry calls can read the same stopped job; only one may run it
+    if (!(await claimJob(job, existing.status))) {
+      return createResponse(null, `Job ${existing.job_id} was already restarted`, startTime);
+    }
+  } else {
+    job = newJob(request);
+    await saveJob(job);
+  }
+
+  // Events up to here belong to earlier runs of the job
+  const lastSeq = await getLastSeq(job.job_id);
+  runInBackground(runPipelineJob(job, supabaseUrl, options));
 
-  const job: PipelineJob = {
+  const started = options.only_sources
+    ? `Retrying ${options.only_sources.length} failed PDFs`
+    : `Pipeline ${request.job_id ? "resumed" : "started"}`;
+
+  return createResponse<PipelineResponse>(
+    {
+      job,
+      last_seq: lastSeq,
+      message: `${started}. Use check_status with job_id ${job.job_id} to follow progress.`,
+    },
+    null,
+    startTime
+  );
+}
+
+/**
+ * A fresh pending job for the request's discovery settings
+ */
+function newJob(request: PipelineRequest): PipelineJob {
+  const now = new Date().toISOString();
+  const jurisdiction = getJurisdiction(request.jurisdiction);
+
+  return {
     job_id: generateJobId(),
-    status: "discovering",
-    file_numbers: fileNumbers || [],
+    status: "pending",
+    jurisdiction: jurisdiction.id,
+    file_numbers: request.file_numbers || [],
+    search_terms: request.search_terms || jurisdiction.default_search_terms,
+    since_days: request.since_days,
+    events: request.events,
+    sources: request.sources,
+    pdf_limit: request.pdf_limit || DEFAULT_PDF_LIMIT,
+    parser: request.parser,
+    chunking: request.chunking,
     discovered_pdfs: [],
     parsed_chunks: 0,
     embedded_chunks: 0,
     upserted_chunks: 0,
-    started_at: new Date().toISOString(),
+    change_summary: { new: 0, changed: 0, skipped: 0, duplicates: 0 },
+    max_credits: request.max_credits || DEFAULT_MAX_CREDITS,
+    max_tokens: request.max_tokens || DEFAULT_MAX_TOKENS,
+    usage: emptyUsage(),
+    concurrency: resolveConcurrency(request),
+    started_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Worker pool sizes for a job: request values win, then the job's previous
+ * settings, then the defaults
+ */
+function resolveConcurrency(
+  request: PipelineRequest,
+  previous?: PipelineJob["concurrency"]
+): PipelineJob["concurrency"] {
+  return {
+    parse: Math.max(1, request.parse_concurrency || previous?.parse || DEFAULT_PARSE_CONCURRENCY),
+    embed: Math.max(1, request.embed_concurrency || previous?.embed || DEFAULT_EMBED_CONCURRENCY),
   };
+}
 
-  console.log(`[orchestrate] Starting pipeline job: ${job.job_id}`);
-  console.log(`[orchestrate] Search terms: ${searchTerms.join(", ")}`);
+/**
+ * Dry run: discover PDFs and compare them with what is stored, returning
+ * what run_pipeline would process and an estimate of its cost. Neither
+ * Reducto nor Voyage is called.
+ */
+async function planPipeline(
+  request: PipelineRequest,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  const baseUrl = supabaseUrl.replace(/\/$/, "");
+  const maxCredits = request.max_credits || DEFAULT_MAX_CREDITS;
+  const jurisdiction = getJurisdiction(request.jurisdiction);
 
-  try {
-    // Step 1: Autonomous Discovery
-    console.log(`[orchestrate] Step 1: Autonomous PDF Discovery...`);
-    job.status = "discovering";
-
-    const discoverResponse = await fetch(`${baseUrl}/functions/v1/firecrawl-discover`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        file_numbers: fileNumbers,
-        search_terms: searchTerms,
-        limit: pdfLimit,
-      }),
-    });
+  const pdfs = await discoverPdfs(baseUrl, {
+    jurisdiction: jurisdiction.id,
+    file_numbers: request.file_numbers,
+    search_terms: request.search_terms || jurisdiction.default_search_terms,
+    since_days: request.since_days,
+    events: request.events,
+    sources: request.sources,
+    limit: request.pdf_limit || DEFAULT_PDF_LIMIT,
+  });
 
-    if (!discoverResponse.ok) {
-      throw new Error(`Discovery failed: ${await discoverResponse.text()}`);
-    }
+  const documents: PlannedDocument[] = [];
+  // Content hash -> URL of the first planned PDF with that content
+  const plannedHashes = new Map<string, string>();
 
-    const discoverResult = await discoverResponse.json();
-    job.discovered_pdfs = discoverResult.data?.discovered_pdfs || [];
-    console.log(`[orchestrate] Discovered ${job.discovered_pdfs.length} PDFs`);
+  for (const pdf of pdfs) {
+    let changeStatus: ChangeStatus = "new";
+    let duplicateOf: string | undefined;
+    let pages = 1;
 
-    if (job.discovered_pdfs.length === 0) {
-      job.status = "completed";
-      job.completed_at = new Date().toISOString();
-      return createResponse<PipelineResponse>(
-        {
-          job,
-          message: "Pipeline complete. No PDFs found to process.",
-        },
-        null,
-        startTime
-      );
-    }
+    try {
+      const { status, fingerprint } = await detectChange(pdf.url);
+      changeStatus = status;
+      pages = fingerprint.page_count || pages;
 
-    // Step 2: Parse each PDF
-    console.log(`[orchestrate] Step 2: Parsing PDFs...`);
-    job.status = "parsing";
-
-    const allChunks: Array<{
-      text: string;
-      embedding?: number[];
-      file_number: string;
-      source_url: string;
-      page_number: number;
-      bbox: { left: number; top: number; width: number; height: number };
-      chunk_index: number;
-      metadata?: Record<string, unknown>;
-    }> = [];
-
-    for (const pdf of job.discovered_pdfs) {
-      console.log(`[orchestrate] Parsing: ${pdf.url}`);
-
-      const parseResponse = await fetch(`${baseUrl}/functions/v1/reducto-parse`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          pdf_url: pdf.url,
-          file_number: pdf.file_number,
-        }),
-      });
-
-      if (!parseResponse.ok) {
-        console.error(`[orchestrate] Parse failed for ${pdf.url}: ${await parseResponse.text()}`);
-        continue;
+      const contentHash = fingerprint.content_hash;
+      if (contentHash && status === "new") {
+        duplicateOf = plannedHashes.get(contentHash) ??
+          (await findStoredOriginal(contentHash, pdf.url))?.source_url;
+        if (duplicateOf) changeStatus = "duplicate";
       }
-
-      const parseResult = await parseResponse.json();
-      const chunks = parseResult.data?.chunks || [];
-
-      for (const chunk of chunks) {
-        allChunks.push({
-          text: chunk.text,
-          file_number: pdf.file_number,
-          source_url: pdf.url,
-          page_number: chunk.page_number,
-          bbox: chunk.bbox,
-          chunk_index: chunk.chunk_index,
-          metadata: {
-            ...chunk.metadata,
-            discovered_at: pdf.discovered_at,
-            parsed_at: parseResult.data?.parsed_at,
-          },
-        });
+      if (contentHash && !plannedHashes.has(contentHash)) {
+        plannedHashes.set(contentHash, duplicateOf ?? pdf.url);
       }
+    } catch (error) {
+      console.warn(`[orchestrate] Change check failed for ${pdf.url}:`, error);
+    }
 
-      job.parsed_chunks = allChunks.length;
+    const skipReason = changeStatus === "unchanged" || changeStatus === "duplicate" ? changeStatus : undefined;
+    documents.push({
+      url: pdf.url,
+      title: pdf.title,
+      file_number: pdf.file_number,
+      attachment_type: pdf.attachment_type,
+      change_status: changeStatus,
+      duplicate_of: duplicateOf,
+      will_process: !skipReason,
+      skip_reason: skipReason,
+      estimate: estimateCost(pages, request.parser),
+    });
+  }
+
+  const admitted = selectWithinBudget(
+    documents.filter((doc) => doc.will_process),
+    (doc) => doc.estimate,
+    maxCredits
+  );
+
+  for (const doc of documents) {
+    if (doc.will_process && !admitted.has(doc)) {
+      doc.will_process = false;
+      doc.skip_reason = "over_budget";
     }
+  }
+
+  const toProcess = documents.filter((doc) => doc.will_process);
+  const plan: PipelinePlan = {
+    documents,
+    to_process: toProcess.length,
+    skipped: documents.length - toProcess.length,
+    estimate: sumEstimates(toProcess.map((doc) => doc.estimate)),
+    max_credits: maxCredits,
+    within_budget: documents.every((doc) => doc.skip_reason !== "over_budget"),
+  };
+
+  return createResponse<PipelineResponse>(
+    {
+      plan,
+      message: `Would process ${plan.to_process} of ${documents.length} PDFs ` +
+        `(~${plan.estimate.reducto_credits} credits, ~${plan.estimate.embedding_tokens} tokens)`,
+    },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Report the stored state of a single job
+ */
+async function checkStatus(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  if (!request.job_id) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
+
+  const job = await getJob(request.job_id);
+  if (!job) {
+    return createResponse(null, `Job not found: ${request.job_id}`, startTime);
+  }
+
+  return createResponse<PipelineResponse>(
+    { job, message: `Job ${job.job_id} is ${job.status}` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * List recent jobs, newest first
+ */
+async function listPipelineJobs(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  const jobs = await listJobs({ status: request.status, limit: request.limit });
+
+  return createResponse<PipelineResponse>(
+    { jobs, message: `Found ${jobs.length} jobs` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Ask a running job to pause once the PDFs it is working on finish their
+ * current stage
+ */
+async function pauseJob(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  if (!request.job_id) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
+
+  const job = await requestStop(request.job_id, "pause");
+  if (!job) {
+    return createResponse(null, `Job ${request.job_id} is not running`, startTime);
+  }
+
+  return createResponse<PipelineResponse>(
+    { job, message: `Job ${job.job_id} will pause at the next safe point` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Continue a paused job from its checkpoints
+ */
+async function resumeJob(
+  request: PipelineRequest,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  if (!request.job_id) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
+
+  const job = await getJob(request.job_id);
+  if (!job) {
+    return createResponse(null, `Job not found: ${request.job_id}`, startTime);
+  }
+  if (job.status !== "paused") {
+    return createResponse(null, `Job ${job.job_id} is ${job.status}, not paused`, startTime);
+  }
+
+  return await startPipeline(request, supabaseUrl, startTime);
+}
+
+/**
+ * Reducto's call when an async parse finishes. The report is recorded on the
+ * pipeline job first; a job that paused to wait for its Reducto jobs is then
+ * resumed, and a running one sees the report before it pauses.
+ */
+async function reductoWebhook(
+  req: Request,
+  token: string | null,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  const secret = Deno.env.get("REDUCTO_WEBHOOK_SECRET");
+  if (!secret || token !== secret) {
+    return createResponse(null, "Invalid webhook token", startTime);
+  }
+
+  const payload: { job_id?: string; status?: string } = await req.json();
+  if (!payload.job_id) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
+
+  const checkpoint = await findCheckpointByReductoJob(payload.job_id);
+  const job = checkpoint && (await recordReductoCompletion(checkpoint.job_id, payload.job_id));
+  if (!job) {
+    return createResponse<PipelineResponse>(
+      { message: `No job is waiting on Reducto job ${payload.job_id}` },
+      null,
+      startTime
+    );
+  }
+  if (job.status !== "paused" || !job.reducto_pending) {
+    return createResponse<PipelineResponse>(
+      { message: `Recorded Reducto job ${payload.job_id} for job ${job.job_id}, which is ${job.status}` },
+      null,
+      startTime
+    );
+  }
+
+  console.log(`[orchestrate] Reducto job ${payload.job_id} is ${payload.status}; resuming job ${job.job_id}`);
+  return await startPipeline({ action: "resume_job", job_id: job.job_id }, supabaseUrl, startTime);
+}
+
+/**
+ * Cancel a job. A running job stops at the next safe point; a paused job is
+ * cancelled immediately. Checkpoints are kept, so run_pipeline with the
+ * job_id can still pick it up later.
+ */
+async function cancelJob(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  if (!request.job_id) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
 
-    console.log(`[orchestrate] Parsed ${allChunks.length} total chunks`);
+  const job = await getJob(request.job_id);
+  if (!job) {
+    return createResponse(null, `Job not found: ${request.job_id}`, startTime);
+  }
+  if (isTerminalStatus(job.status)) {
+    return createResponse(null, `Job ${job.job_id} is already ${job.status}`, startTime);
+  }
+
+  // A paused job is cancelled in place, unless resume_job or Reducto's webhook
+  // restarted it since the read; its runner is then asked to stop instead
+  if (job.status === "paused") {
+    const cancelled: PipelineJob = { ...job, status: "cancelled", completed_at: new Date().toISOString() };
+    if (await claimJob(cancelled, "paused")) {
+      const emit = createEventLog(job.job_id);
+      await emit("stage", { status: cancelled.status });
+      await emit("done", { status: cancelled.status, completed_at: cancelled.completed_at });
 
-    if (allChunks.length === 0) {
-      job.status = "completed";
-      job.completed_at = new Date().toISOString();
       return createResponse<PipelineResponse>(
-        {
-          job,
-          message: "Pipeline complete. No chunks extracted from PDFs.",
-        },
+        { job: cancelled, message: `Job ${job.job_id} cancelled` },
         null,
         startTime
       );
     }
+  }
 
-    // Step 3: Generate embeddings
-    console.log(`[orchestrate] Step 3: Generating embeddings...`);
-    job.status = "embedding";
+  const stopping = await requestStop(job.job_id, "cancel");
+  if (!stopping) {
+    // Finished, paused or cancelled between the read and the request
+    return createResponse(null, `Job ${job.job_id} is no longer running`, startTime);
+  }
 
-    // Group chunks by source for batch embedding
-    const chunksBySource = new Map<string, typeof allChunks>();
-    for (const chunk of allChunks) {
-      const key = `${chunk.file_number}:${chunk.source_url}`;
-      if (!chunksBySource.has(key)) {
-        chunksBySource.set(key, []);
-      }
-      chunksBySource.get(key)!.push(chunk);
-    }
+  return createResponse<PipelineResponse>(
+    { job: stopping, message: `Job ${job.job_id} will be cancelled at the next safe point` },
+    null,
+    startTime
+  );
+}
 
-    const embeddedChunks: typeof allChunks = [];
-
-    for (const [key, chunks] of chunksBySource) {
-      const [fileNumber, ...sourceUrlParts] = key.split(":");
-      const sourceUrl = sourceUrlParts.join(":"); // Rejoin in case URL has colons
-      console.log(`[orchestrate] Embedding ${chunks.length} chunks from ${sourceUrl}`);
-
-      const embedResponse = await fetch(`${baseUrl}/functions/v1/voyage-embed`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          chunks: chunks.map((c) => ({
-            text: c.text,
-            page_number: c.page_number,
-            bbox: c.bbox,
-            chunk_index: c.chunk_index,
-            metadata: c.metadata,
-          })),
-          file_number: fileNumber,
-          source_url: sourceUrl,
-        }),
-      });
-
-      if (!embedResponse.ok) {
-        console.error(`[orchestrate] Embedding failed: ${await embedResponse.text()}`);
-        continue;
-      }
+/**
+ * Reprocess only the PDFs on a finished job's dead-letter list. Each resumes
+ * from the last stage it completed.
+ */
+async function retryFailed(
+  request: PipelineRequest,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  if (!request.job_id) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
 
-      const embedResult = await embedResponse.json();
-      const embedded = embedResult.data?.chunks || [];
+  const job = await getJob(request.job_id);
+  if (!job) {
+    return createResponse(null, `Job not found: ${request.job_id}`, startTime);
+  }
 
-      for (const chunk of embedded) {
-        embeddedChunks.push({
-          ...chunk,
-          embedding: chunk.embedding,
-        });
-      }
+  const failed = job.failed_documents || [];
+  if (failed.length === 0) {
+    return createResponse(null, `Job ${job.job_id} has no failed documents`, startTime);
+  }
 
-      job.embedded_chunks = embeddedChunks.length;
-    }
+  return await startPipeline(request, supabaseUrl, startTime, {
+    only_sources: failed.map((doc) => doc.source_url),
+  });
+}
 
-    console.log(`[orchestrate] Generated ${embeddedChunks.length} embeddings`);
+/**
+ * Register a watch on file numbers and/or search terms. Its first run
+ * happens on the next run_watches call.
+ */
+async function createWatch(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  const fileNumbers = request.file_numbers || [];
+  const searchTerms = request.search_terms || [];
+  const sources = request.sources || [];
 
-    // Step 4: Upsert to MongoDB
-    console.log(`[orchestrate] Step 4: Upserting to MongoDB...`);
-    job.status = "upserting";
+  if (fileNumbers.length === 0 && searchTerms.length === 0 && sources.length === 0) {
+    return createResponse(null, "A watch needs file_numbers, search_terms or sources", startTime);
+  }
 
-    const upsertResponse = await fetch(`${baseUrl}/functions/v1/mongo-upsert`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        action: "upsert",
-        documents: embeddedChunks,
+  const now = new Date().toISOString();
+  const watch: Watch = {
+    watch_id: generateWatchId(),
+    name: request.name ||
+      [...fileNumbers, ...searchTerms].join(", ") ||
+      sources.map((source) => source.type).join(", "),
+    jurisdiction: getJurisdiction(request.jurisdiction).id,
+    file_numbers: fileNumbers,
+    search_terms: searchTerms,
+    sources: sources.length > 0 ? sources : undefined,
+    pdf_limit: request.pdf_limit || DEFAULT_PDF_LIMIT,
+    max_credits: request.max_credits || DEFAULT_MAX_CREDITS,
+    interval_minutes: Math.max(1, request.interval_minutes || DEFAULT_WATCH_INTERVAL_MINUTES),
+    enabled: true,
+    created_at: now,
+    updated_at: now,
+    next_run_at: now,
+  };
+
+  await saveWatch(watch);
+
+  return createResponse<PipelineResponse>(
+    { watch, message: `Watch ${watch.watch_id} created` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * List all watches
+ */
+async function listPipelineWatches(startTime: number): Promise<Response> {
+  const watches = await listWatches();
+
+  return createResponse<PipelineResponse>(
+    { watches, message: `Found ${watches.length} watches` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Delete a watch; its past jobs and change reports are kept
+ */
+async function removeWatch(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  if (!request.watch_id) {
+    return createResponse(null, "Missing watch_id", startTime);
+  }
+
+  if (!(await deleteWatch(request.watch_id))) {
+    return createResponse(null, `Watch not found: ${request.watch_id}`, startTime);
+  }
+
+  return createResponse<PipelineResponse>(
+    { message: `Watch ${request.watch_id} deleted` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Start a pipeline job for every watch that is due. Called on a schedule
+ * (see scripts/run-watches.ts). A watch whose previous job is still running
+ * is left for the next call.
+ */
+async function runWatches(
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  const due = await listDueWatches();
+  const jobs: PipelineJob[] = [];
+
+  for (const watch of due) {
+    if (watch.last_job_id) {
+      const lastJob = await getJob(watch.last_job_id);
+      if (lastJob && isActiveStatus(lastJob.status)) {
+        console.log(`[orchestrate] Watch ${watch.watch_id} still running ${lastJob.job_id}, skipping`);
+        continue;
+      }
+    }
+
+    const job: PipelineJob = {
+      ...newJob({
+        action: "run_pipeline",
+        jurisdiction: watch.jurisdiction,
+        file_numbers: watch.file_numbers,
+        search_terms: watch.search_terms,
+        sources: watch.sources,
+        pdf_limit: watch.pdf_limit,
+        max_credits: watch.max_credits,
       }),
-    });
+      watch_id: watch.watch_id,
+    };
 
-    if (!upsertResponse.ok) {
-      throw new Error(`Upsert failed: ${await upsertResponse.text()}`);
+    // Overlapping run_watches calls can list the same due watch; only one runs it
+    if (!(await claimDueWatch(watch, job.job_id))) {
+      console.log(`[orchestrate] Watch ${watch.watch_id} was already started, skipping`);
+      continue;
     }
 
-    const upsertResult = await upsertResponse.json();
-    job.upserted_chunks = upsertResult.data?.upserted_count || 0;
+    await saveJob(job);
+    runInBackground(runPipelineJob(job, supabaseUrl));
+    jobs.push(job);
 
-    // Complete
-    job.status = "completed";
-    job.completed_at = new Date().toISOString();
+    console.log(`[orchestrate] Watch ${watch.watch_id} started ${job.job_id}`);
+  }
 
-    console.log(`[orchestrate] Pipeline complete. Upserted ${job.upserted_chunks} chunks.`);
+  return createResponse<PipelineResponse>(
+    { jobs, message: `Started ${jobs.length} of ${due.length} due watches` },
+    null,
+    startTime
+  );
+}
 
-    return createResponse<PipelineResponse>(
-      {
-        job,
-        message: `Pipeline complete! Processed ${job.discovered_pdfs.length} PDFs, ${job.upserted_chunks} chunks stored.`,
-      },
-      null,
-      startTime
-    );
-  } catch (error) {
-    job.status = "failed";
-    job.error = (error as Error).message;
-    job.completed_at = new Date().toISOString();
+/**
+ * List change reports from watch runs, newest first
+ */
+async function getChangeReports(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  const changeReports = await listChangeReports({
+    watch_id: request.watch_id,
+    limit: request.limit,
+  });
 
-    return createResponse<PipelineResponse>(
-      { job },
-      (error as Error).message,
-      startTime
-    );
+  return createResponse<PipelineResponse>(
+    { change_reports: changeReports, message: `Found ${changeReports.length} change reports` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Fetch and store the legislative history of some files now, outside a
+ * pipeline run (run_pipeline does this for every file it discovers)
+ */
+async function runHistoryIngest(
+  request: PipelineRequest,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  if (!request.file_numbers || request.file_numbers.length === 0) {
+    return createResponse(null, "Missing file_numbers", startTime);
   }
+
+  const baseUrl = supabaseUrl.replace(/\/$/, "");
+  const jurisdiction = getJurisdiction(request.jurisdiction);
+  const ingested = await ingestHistory(baseUrl, request.file_numbers, jurisdiction.id);
+
+  return createResponse<PipelineResponse>(
+    { ingested, message: `Stored ${ingested.actions_stored ?? 0} history actions` },
+    null,
+    startTime
+  );
+}
+
+/**
+ * What happened to a file and when: its stored actions in date order
+ */
+async function getHistory(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  if (!request.file_number) {
+    return createResponse(null, "Missing file_number", startTime);
+  }
+
+  const actions = await getMatterActions(request.file_number, {
+    jurisdiction: getJurisdiction(request.jurisdiction).id,
+    from_date: request.from_day,
+    to_date: request.to_day,
+  });
+
+  return createResponse<PipelineResponse>(
+    {
+      history: { file_number: request.file_number, actions },
+      message: `Found ${actions.length} actions for File ${request.file_number}`,
+    },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Files related to one file: Legistar relations and "File No." references,
+ * optionally followed several hops
+ */
+async function relatedFiles(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  if (!request.file_number) {
+    return createResponse(null, "Missing file_number", startTime);
+  }
+
+  const jurisdiction = getJurisdiction(request.jurisdiction).id;
+  const related = await getRelatedFiles(request.file_number, {
+    jurisdiction,
+    depth: request.depth,
+  });
+
+  return createResponse<PipelineResponse>(
+    {
+      related: { file_number: request.file_number, jurisdiction, related_files: related },
+      message: `Found ${related.length} files related to File ${request.file_number}`,
+    },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Stream a job's progress events as Server-Sent Events.
+ * Sends a "snapshot" of the stored job first, then tails the event log.
+ */
+async function streamJob(
+  jobId: string | null,
+  afterSeq: number,
+  startTime: number
+): Promise<Response> {
+  if (!jobId) {
+    return createResponse(null, "Missing job_id", startTime);
+  }
+
+  const job = await getJob(jobId);
+  if (!job) {
+    return createResponse(null, `Job not found: ${jobId}`, startTime);
+  }
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (message: string) => controller.enqueue(encoder.encode(message));
+      let lastSeq = afterSeq;
+
+      send(formatSSE({ type: "snapshot", data: job }));
+
+      try {
+        while (!cancelled && Date.now() - startTime < STREAM_MAX_DURATION_MS) {
+          const events = await listEvents(jobId, lastSeq);
+
+          for (const event of events) {
+            send(formatSSE(event));
+            lastSeq = event.seq;
+          }
+
+          if (events.some((event) => event.type === "done")) break;
+
+          if (events.length === 0) {
+            const current = await getJob(jobId);
+            if (!current || !isActiveStatus(current.status)) break;
+
+            send(": keep-alive\n\n");
+            await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+          }
+        }
+      } catch (error) {
+        console.error(`[orchestrate] Stream error for ${jobId}:`, error);
+        send(formatSSE({ type: "failure", data: { message: (error as Error).message } }));
+      }
+
+      if (!cancelled) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, last-event-id",
+    },
+  });
+}
+
+/**
+ * Report Reducto / Voyage spend from the usage ledger
+ */
+async function getUsage(
+  request: PipelineRequest,
+  startTime: number
+): Promise<Response> {
+  const usage = await getUsageReport({
+    group_by: request.group_by,
+    job_id: request.job_id,
+    from_day: request.from_day,
+    to_day: request.to_day,
+  });
+
+  return createResponse<PipelineResponse>(
+    {
+      usage,
+      message: `${usage.totals.reducto_credits} credits, ${usage.totals.embedding_tokens} tokens`,
+    },
+    null,
+    startTime
+  );
 }
 
 /**
@@ -319,6 +1069,16 @@ async function runSearch(
     return createResponse(null, "Missing query", startTime);
   }
 
+  // No jurisdiction searches them all; unknown ids are rejected up front
+  const jurisdictions = (request.jurisdictions || (request.jurisdiction ? [request.jurisdiction] : []))
+    .map((id) => getJurisdiction(id).id);
+
+  let fileNumbers = request.file_numbers;
+  if (request.expand_related && fileNumbers && fileNumbers.length > 0) {
+    fileNumbers = await expandFileNumbers(fileNumbers, jurisdictions);
+    console.log(`[orchestrate] Expanded file filter to related files: ${fileNumbers.join(", ")}`);
+  }
+
   const VOYAGE_API_KEY = getRequiredEnv("VOYAGE_API_KEY");
   const baseUrl = supabaseUrl.replace(/\/$/, "");
 
@@ -352,7 +1112,12 @@ async function runSearch(
     body: JSON.stringify({
       action: "search",
       query_embedding: queryEmbedding,
-      file_numbers: request.file_numbers,
+      file_numbers: fileNumbers,
+      jurisdictions,
+      sponsors: request.sponsors,
+      departments: request.departments,
+      attachment_types: request.attachment_types,
+      include_superseded: request.include_superseded === true,
       limit: request.limit || 10,
       min_score: request.min_score || 0.7,
     }),
@@ -367,9 +1132,109 @@ async function runSearch(
   return createResponse<PipelineResponse>(
     {
       search_results: searchResult.data?.results || [],
+      search_facets: searchResult.data?.facets,
       message: `Found ${searchResult.data?.total_found || 0} results`,
     },
     null,
     startTime
   );
 }
+
+/**
+ * A stored table as JSON (with its cells and a grid of their text) or as a
+ * CSV download
+ */
+async function getTable(
+  tableId: string | null,
+  format: string | null,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  if (!tableId) {
+    return createResponse(null, "Missing table_id", startTime);
+  }
+  if (format && format !== "json" && format !== "csv") {
+    return createResponse(null, `Unknown format: ${format}. Use 'json' or 'csv'.`, startTime);
+  }
+
+  const baseUrl = supabaseUrl.replace(/\/$/, "");
+  const tableResponse = await fetch(`${baseUrl}/functions/v1/mongo-upsert`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "get_table", table_id: tableId }),
+  });
+
+  const tableResult = await tableResponse.json();
+  if (!tableResult.success) {
+    return createResponse(null, tableResult.error || "Table lookup failed", startTime);
+  }
+
+  const table: DocumentTable = tableResult.data.table;
+
+  if (format === "csv") {
+    return new Response(tableToCsv(table), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${table.file_number}-table-${table.table_index + 1}.csv"`,
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+        "Access-Control-Expose-Headers": "content-disposition",
+      },
+    });
+  }
+
+  return createResponse<PipelineResponse>(
+    {
+      table,
+      table_rows: tableGrid(table),
+      message: `Table ${table.table_index + 1} of File ${table.file_number}, page ${table.page_number}`,
+    },
+    null,
+    startTime
+  );
+}
+
+/**
+ * Find tables with cells containing the query
+ */
+async function searchTables(
+  request: PipelineRequest,
+  supabaseUrl: string,
+  startTime: number
+): Promise<Response> {
+  if (!request.query) {
+    return createResponse(null, "Missing query", startTime);
+  }
+
+  const jurisdictions = (request.jurisdictions || (request.jurisdiction ? [request.jurisdiction] : []))
+    .map((id) => getJurisdiction(id).id);
+  const baseUrl = supabaseUrl.replace(/\/$/, "");
+
+  const searchResponse = await fetch(`${baseUrl}/functions/v1/mongo-upsert`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      action: "search_tables",
+      query_text: request.query,
+      file_numbers: request.file_numbers,
+      jurisdictions,
+      source_url: request.source_url,
+      limit: request.limit || 20,
+    }),
+  });
+
+  if (!searchResponse.ok) {
+    throw new Error(`Table search failed: ${await searchResponse.text()}`);
+  }
+
+  const searchResult = await searchResponse.json();
+
+  return createResponse<PipelineResponse>(
+    {
+      table_results: searchResult.data?.results || [],
+      message: `Found ${searchResult.data?.total_found || 0} tables`,
+    },
+    null,
+    startTime
+  );
+}
@@ -0,0 +1,1178 @@
+// =============================================================================
+// Pipeline Runner
+// =============================================================================
+// Runs a PipelineJob: Discovery -> Change Detection -> Parsing -> Embedding
+// -> Storage. Each PDF moves through its stages independently, so finished
+// parses go straight to embedding while other PDFs are still parsing.
+// Parse and embed calls go through bounded-concurrency, rate-limited pools.
+// Pause / cancel requests are checked before each PDF starts a stage; calls
+// already in flight finish and are checkpointed first.
+// A PDF whose parse, embed or store call fails is recorded on the job's
+// failed_documents dead-letter list and the rest of the job carries on.
+// "File No. XXXXXX" references in parsed text feed the related-matter graph.
+// A new URL whose content matches a stored (or earlier) PDF is a copy: it is
+// not parsed or embedded, its file is linked to the original's chunks.
+// A PDF discovered under several matters is stored under the first and
+// linked to the others (other_matters) once stored.
+// Parsed PDFs are classified from their opening pages (_shared/classifier.ts).
+// Tables found by the parser are stored with the chunks, in their own
+// collection; each table chunk's metadata.table_id points to its table.
+// Reducto parses are async jobs whose id is kept on the checkpoint. All are
+// submitted first, then checked together; any still running after
+// REDUCTO_WAIT_SECONDS leave the job paused with
+// reducto_pending set, to be resumed by Reducto's webhook or resume_job.
+// Webhooks are recorded on the job first, so one that arrives before the
+// pause is saved is not lost (see pauseForReducto).
+// =============================================================================
+
+import {
+  ChangeStatus,
+  CostEstimate,
+  DocumentCheckpoint,
+  DocumentStage,
+  DiscoverySourceConfig,
+  DiscoveredMatter,
+  DocumentLink,
+  EventDiscoveryOptions,
+  FailedStage,
+  FirecrawlDiscoveryResult,
+  PipelineChunk,
+  PipelineJob,
+  PipelineJobStatus,
+  ReductoChunk,
+  ReductoParseResult,
+  StopRequest,
+} from "../_shared/types.ts";
+import { createLimiter } from "../_shared/utils.ts";
+import { saveJob, getStopRequest, clearStopRequest, pauseForReducto } from "../_shared/jobs.ts";
+import {
+  ensureCheckpoints,
+  hasReachedStage,
+  saveCheckpoint,
+  saveCheckpointChunks,
+  loadCheckpointChunks,
+  clearCheckpointChunks,
+} from "../_shared/checkpoints.ts";
+import { detectChange, findStoredOriginal, saveSourceDocument } from "../_shared/fingerprints.ts";
+import { estimateCost, estimateTokens, sumEstimates, REDUCTO_CREDITS_PER_PAGE } from "../_shared/costs.ts";
+import { recordUsage, addUsage } from "../_shared/usage.ts";
+import { createEventLog, EmitEvent } from "../_shared/events.ts";
+import { buildChangeReport, saveChangeReport } from "../_shared/watches.ts";
+import { extractFileReferences, saveRelations } from "../_shared/relations.ts";
+import { DEFAULT_JURISDICTION, getJurisdiction } from "../_shared/jurisdictions.ts";
+import { classifyDocument } from "../_shared/classifier.ts";
+import { collectTables, tableId } from "../_shared/tables.ts";
+import { createPdfList, mattersOf } from "../_shared/urls.ts";
+
+export const DEFAULT_PARSE_CONCURRENCY = 3;
+export const DEFAULT_EMBED_CONCURRENCY = 2;
+
+// Provider rate limits (requests per minute), overridable per deployment
+const REDUCTO_REQUESTS_PER_MINUTE = Number(Deno.env.get("REDUCTO_REQUESTS_PER_MINUTE") || 30);
+const VOYAGE_REQUESTS_PER_MINUTE = Number(Deno.env.get("VOYAGE_REQUESTS_PER_MINUTE") || 60);
+
+// How long a parse checks on its Reducto job before leaving it to the webhook
+const REDUCTO_WAIT_SECONDS = Number(Deno.env.get("REDUCTO_WAIT_SECONDS") || 120);
+const REDUCTO_POLL_INTERVAL_MS = 10_000;
+
+interface PipelineContext {
+  job: PipelineJob;
+  baseUrl: string;
+  checkpoints: DocumentCheckpoint[];
+  pdfsByUrl: Map<string, FirecrawlDiscoveryResult>;
+  // Tokens of embed calls currently in flight, counted against max_tokens
+  reservedTokens: number;
+  // Estimated credits of Reducto submits in flight, counted against max_credits
+  reservedCredits: number;
+  emit: EmitEvent;
+  isStopRequested: () => Promise<boolean>;
+}
+
+export interface RunOptions {
+  // Only process these PDFs (retry_failed); the rest of the job is left as is
+  only_sources?: string[];
+}
+
+/**
+ * Run the full pipeline for a job, persisting status and counters as it goes.
+ * PDFs that already passed a stage in an earlier run of the job skip it.
+ */
+export async function runPipelineJob(
+  job: PipelineJob,
+  supabaseUrl: string,
+  options: RunOptions = {}
+): Promise<void> {
+  const baseUrl = supabaseUrl.replace(/\/$/, "");
+  const emit = createEventLog(job.job_id);
+
+  const setStatus = async (status: PipelineJobStatus) => {
+    job.status = status;
+    await saveJob(job);
+    await emit("stage", { status });
+  };
+
+  // A pause / cancel request sticks once seen, so every later stage skips
+  const stop: { request: StopRequest | null } = { request: null };
+  const isStopRequested = async () => {
+    stop.request ??= await getStopRequest(job.job_id);
+    return stop.request !== null;
+  };
+
+  const haltForStop = async () => {
+    const status: PipelineJobStatus = stop.request === "cancel" ? "cancelled" : "paused";
+    console.log(`[orchestrate] Job ${job.job_id} ${status} on request`);
+    if (status === "cancelled") {
+      job.completed_at = new Date().toISOString();
+    }
+    await setStatus(status);
+  };
+
+  console.log(`[orchestrate] Starting pipeline job: ${job.job_id}`);
+  console.log(`[orchestrate] Search terms: ${job.search_terms.join(", ")}`);
+
+  let checkpoints: DocumentCheckpoint[] = [];
+
+  try {
+    // Step 1: Autonomous Discovery
+    if (job.discovered_pdfs.length > 0) {
+      console.log(`[orchestrate] Step 1: Reusing ${job.discovered_pdfs.length} previously discovered PDFs`);
+    } else {
+      console.log(`[orchestrate] Step 1: Autonomous PDF Discovery...`);
+      await setStatus("discovering");
+
+      job.discovered_pdfs = await discoverPdfs(baseUrl, {
+        jurisdiction: job.jurisdiction,
+        file_numbers: job.file_numbers.length > 0 ? job.file_numbers : undefined,
+        search_terms: job.search_terms,
+        since_days: job.since_days,
+        events: job.events,
+        sources: job.sources,
+        limit: job.pdf_limit,
+      });
+      console.log(`[orchestrate] Discovered ${job.discovered_pdfs.length} PDFs`);
+      await saveJob(job);
+      await emit("counters", jobCounters(job));
+
+      // Legislative history is context, not content - a failure here is not fatal
+      // Meeting agendas and minutes have no file number
+      const fileNumbers = [...new Set(job.discovered_pdfs.map((pdf) => pdf.file_number).filter(Boolean))];
+      if (fileNumbers.length > 0) {
+        try {
+          await ingestHistory(baseUrl, fileNumbers, job.jurisdiction);
+        } catch (error) {
+          console.warn(`[orchestrate] History ingest failed:`, error);
+        }
+      }
+    }
+
+    if (job.discovered_pdfs.length === 0) {
+      console.log(`[orchestrate] Pipeline complete. No PDFs found to process.`);
+      job.completed_at = new Date().toISOString();
+      await setStatus("completed");
+      return;
+    }
+
+    const context: PipelineContext = {
+      job,
+      baseUrl,
+      checkpoints: await ensureCheckpoints(job.job_id, job.discovered_pdfs),
+      pdfsByUrl: new Map(job.discovered_pdfs.map((pdf) => [pdf.url, pdf])),
+      reservedTokens: 0,
+      reservedCredits: 0,
+      emit,
+      isStopRequested,
+    };
+    checkpoints = context.checkpoints;
+    updateJobCounters(job, checkpoints);
+
+    const onlySources = options.only_sources && new Set(options.only_sources);
+    const targets = onlySources
+      ? checkpoints.filter((checkpoint) => onlySources.has(checkpoint.source_url))
+      : checkpoints;
+
+    // Step 2: Skip PDFs whose content has not changed since they were last stored,
+    // and set aside new URLs whose content is already stored under another URL
+    console.log(`[orchestrate] Step 2: Checking for changed documents...`);
+
+    for (const checkpoint of targets) {
+      if (checkpoint.change_status || checkpoint.stage !== "discovered") continue;
+      if (await isStopRequested()) break;
+
+      try {
+        const { status, fingerprint } = await detectChange(checkpoint.source_url);
+        checkpoint.change_status = status;
+        checkpoint.fingerprint = fingerprint;
+      } catch (error) {
+        // Could not fingerprint - process it anyway and let the parser report the problem
+        console.warn(`[orchestrate] Change check failed for ${checkpoint.source_url}:`, error);
+        checkpoint.change_status = "new";
+      }
+
+      if (checkpoint.change_status === "unchanged") {
+        console.log(`[orchestrate] Unchanged, skipping: ${checkpoint.source_url}`);
+        checkpoint.stage = "stored";
+      } else if (checkpoint.change_status === "new") {
+        const originalUrl = await findOriginalUrl(context, checkpoint);
+        if (originalUrl) {
+          console.log(`[orchestrate] Copy of ${originalUrl}, will link: ${checkpoint.source_url}`);
+          checkpoint.change_status = "duplicate";
+          checkpoint.duplicate_of = originalUrl;
+        }
+      }
+
+      await recordProgress(context, checkpoint);
+    }
+
+    if (await isStopRequested()) {
+      await haltForStop();
+      return;
+    }
+
+    console.log(
+      `[orchestrate] New: ${job.change_summary.new}, changed: ${job.change_summary.changed}, ` +
+      `skipped: ${job.change_summary.skipped}, duplicates: ${job.change_summary.duplicates}`
+    );
+
+    // Hold back PDFs whose estimated parse cost would push the job past max_credits
+    const pending = targets.filter(
+      (checkpoint) => !hasReachedStage(checkpoint, "parsed") && checkpoint.change_status !== "duplicate"
+    );
+    const estimateOf = (checkpoint: DocumentCheckpoint) => estimateParse(job, checkpoint);
+    const admitted = selectWithinBudget(
+      pending,
+      estimateOf,
+      job.max_credits - job.usage.reducto_credits
+    );
+
+    for (const checkpoint of pending) {
+      const overBudget = !admitted.has(checkpoint);
+      if (checkpoint.over_budget !== overBudget) {
+        checkpoint.over_budget = overBudget;
+        await saveCheckpoint(checkpoint);
+      }
+    }
+
+    job.estimate = sumEstimates([...admitted].map(estimateOf));
+    job.deferred_pdfs = pending.length - admitted.size;
+    await saveJob(job);
+
+    if (job.deferred_pdfs > 0) {
+      console.warn(
+        `[orchestrate] Deferring ${job.deferred_pdfs} PDFs: estimated cost exceeds ${job.max_credits} credits`
+      );
+    }
+
+    // Steps 3-5: Parse, embed and store each PDF as its own chain of stages
+    console.log(
+      `[orchestrate] Steps 3-5: Processing PDFs ` +
+      `(parse concurrency ${job.concurrency.parse}, embed concurrency ${job.concurrency.embed})...`
+    );
+
+    const parsePool = createLimiter(job.concurrency.parse, 60_000 / REDUCTO_REQUESTS_PER_MINUTE);
+    const embedPool = createLimiter(job.concurrency.embed, 60_000 / VOYAGE_REQUESTS_PER_MINUTE);
+    const active = new Set(
+      targets.filter((checkpoint) => !checkpoint.over_budget && checkpoint.change_status !== "duplicate")
+    );
+    // First budget or database error; stops the job once in-flight calls finish
+    const failure: { error: Error | null } = { error: null };
+
+    const refreshStatus = async () => {
+      const remaining = [...active];
+      const status: PipelineJobStatus =
+        remaining.some((checkpoint) => !hasReachedStage(checkpoint, "parsed")) ? "parsing"
+        : remaining.some((checkpoint) => !hasReachedStage(checkpoint, "embedded")) ? "embedding"
+        : "upserting";
+
+      if (job.status !== status) {
+        await setStatus(status);
+      }
+    };
+
+    // Wraps a stage so it is skipped once the job fails or is asked to stop
+    const unlessStopped = (stage: () => Promise<boolean>) => async () =>
+      failure.error || (await isStopRequested()) ? false : stage();
+
+    const processDocument = async (checkpoint: DocumentCheckpoint) => {
+      try {
+        if (!hasReachedStage(checkpoint, "parsed")) {
+          const parsed = await parsePool(unlessStopped(() => parseDocument(context, checkpoint)));
+          if (!parsed) return;
+        }
+
+        if (!hasReachedStage(checkpoint, "embedded")) {
+          const embedded = await embedPool(unlessStopped(() => embedDocument(context, checkpoint)));
+          if (!embedded) return;
+        }
+
+        if (!hasReachedStage(checkpoint, "stored") && !failure.error && !(await isStopRequested())) {
+          await storeDocument(context, checkpoint);
+        }
+      } catch (error) {
+        failure.error ??= error as Error;
+      } finally {
+        active.delete(checkpoint);
+        await refreshStatus();
+      }
+    };
+
+    // Step 6: Link copies to their originals, and stored PDFs to the other
+    // matters they are attached to
+    const linkFiles = async () => {
+      const duplicates = targets.filter(
+        (checkpoint) => checkpoint.change_status === "duplicate" && checkpoint.stage !== "stored"
+      );
+      const attached = targets.filter(
+        (checkpoint) =>
+          checkpoint.change_status !== "duplicate" &&
+          checkpoint.stage === "stored" &&
+          !checkpoint.other_matters_linked &&
+          (context.pdfsByUrl.get(checkpoint.source_url)?.other_matters?.length ?? 0) > 0
+      );
+      if (duplicates.length + attached.length > 0) {
+        console.log(
+          `[orchestrate] Step 6: Linking ${duplicates.length} copies to their originals ` +
+          `and ${attached.length} PDFs to their other matters...`
+        );
+      }
+
+      for (const checkpoint of duplicates) {
+        if (failure.error || (await isStopRequested())) break;
+        await linkDuplicate(context, checkpoint);
+      }
+      for (const checkpoint of attached) {
+        if (failure.error || (await isStopRequested())) break;
+        await linkOtherMatters(context, checkpoint);
+      }
+    };
+
+    await refreshStatus();
+    await Promise.all([...active].map(processDocument));
+    await linkFiles();
+
+    if (failure.error) {
+      throw failure.error;
+    }
+
+    if (stop.request) {
+      await haltForStop();
+      return;
+    }
+
+    // Every Reducto job is submitted by now. The ones still running are checked
+    // every REDUCTO_POLL_INTERVAL_MS for REDUCTO_WAIT_SECONDS in all, then the
+    // job pauses until the webhook (or resume_job) picks them up, without
+    // holding the function open. A webhook that came in while they were polled
+    // finds the job running, so the pause is refused and those PDFs are
+    // checked again straight away.
+    const waitingForReducto = () => targets.filter(
+      (checkpoint) =>
+        checkpoint.reducto_job_id && !hasReachedStage(checkpoint, "parsed") && !checkpoint.failed_stage
+    );
+    const reductoDeadline = Date.now() + REDUCTO_WAIT_SECONDS * 1000;
+    for (let waiting = waitingForReducto(); waiting.length > 0; waiting = waitingForReducto()) {
+      if (Date.now() + REDUCTO_POLL_INTERVAL_MS <= reductoDeadline) {
+        await new Promise((resolve) => setTimeout(resolve, REDUCTO_POLL_INTERVAL_MS));
+      } else {
+        job.reducto_pending = waiting.length;
+        if (await pauseForReducto(job, waiting.map((checkpoint) => checkpoint.reducto_job_id!))) {
+          console.log(`[orchestrate] Job ${job.job_id} paused: waiting on ${waiting.length} Reducto jobs`);
+          await emit("stage", { status: job.status });
+          return;
+        }
+
+        console.log(`[orchestrate] Reducto reported on a job of ${job.job_id} before it paused; checking again`);
+        job.reducto_pending = undefined;
+      }
+
+      waiting.forEach((checkpoint) => active.add(checkpoint));
+      await Promise.all(waiting.map(processDocument));
+      await linkFiles();
+
+      if (failure.error) {
+        throw failure.error;
+      }
+      if (stop.request) {
+        await haltForStop();
+        return;
+      }
+    }
+
+    // Complete
+    job.completed_at = new Date().toISOString();
+    await setStatus("completed");
+
+    console.log(`[orchestrate] Pipeline complete. Upserted ${job.upserted_chunks} chunks.`);
+  } catch (error) {
+    console.error(`[orchestrate] Job ${job.job_id} failed:`, error);
+    job.error = (error as Error).message;
+    job.completed_at = new Date().toISOString();
+    await emit("failure", { message: job.error });
+    await setStatus("failed");
+  } finally {
+    // A request that arrived too late to be honored should not linger on the job
+    await clearStopRequest(job.job_id);
+
+    // Watch runs report what they added or updated; a paused run reports once resumed
+    if (job.watch_id && job.status !== "paused") {
+      try {
+        await saveChangeReport(buildChangeReport({ ...job, watch_id: job.watch_id }, checkpoints));
+      } catch (error) {
+        console.error(`[orchestrate] Could not save change report for ${job.job_id}:`, error);
+      }
+    }
+
+    await emit("done", { status: job.status, error: job.error, completed_at: job.completed_at });
+  }
+}
+
+/**
+ * Parse one PDF with reducto-parse and checkpoint its chunks.
+ * Returns false if the parse failed.
+ */
+async function parseDocument(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<boolean> {
+  const { job } = context;
+
+  // A submitted Reducto job is already under way; only new parses are held to the budget
+  const submitted = checkpoint.reducto_job_id !== undefined;
+  const reservedCredits = submitted ? 0 : reserveCredits(context, checkpoint);
+
+  const pdf = context.pdfsByUrl.get(checkpoint.source_url)!;
+  console.log(`[orchestrate] Parsing: ${pdf.url}`);
+
+  let parseResult;
+  try {
+    parseResult = await requestParse(context, checkpoint);
+  } catch (error) {
+    await recordFailure(context, checkpoint, "parse", (error as Error).message);
+    return false;
+  } finally {
+    context.reservedCredits -= reservedCredits;
+  }
+
+  // Still running: checked again once the other PDFs are done. A check that
+  // finds it still running has no progress to report.
+  if (parseResult.data?.status === "pending") {
+    if (!submitted || checkpoint.failed_stage) {
+      clearFailure(checkpoint);
+      await recordProgress(context, checkpoint);
+    }
+    return false;
+  }
+
+  if (parseResult.data?.fallback_error) {
+    console.warn(`[orchestrate] Parsed ${pdf.url} with ${parseResult.data.parser}: ${parseResult.data.fallback_error}`);
+  }
+
+  // The ledger only records billable calls; pdf.js parses locally. The estimate
+  // recorded at submit is settled against what Reducto reports. After a fallback
+  // it stays as the cost of the failed Reducto job.
+  if (parseResult.data?.parser !== "pdfjs") {
+    const totalPages = parseResult.data?.total_pages || 0;
+    const recorded = checkpoint.reducto_recorded_usage || { credits: 0, pages: 0 };
+    const credits = (parseResult.data?.usage?.credits_used ?? totalPages * REDUCTO_CREDITS_PER_PAGE) - recorded.credits;
+    const pages = (parseResult.data?.usage?.pages_processed ?? totalPages) - recorded.pages;
+    if (credits !== 0 || pages !== 0) {
+      const parseUsage = await recordUsage({
+        job_id: job.job_id,
+        source_url: pdf.url,
+        file_number: pdf.file_number,
+        provider: "reducto",
+        credits,
+        pages,
+      });
+      job.usage = addUsage(job.usage, parseUsage);
+    }
+  }
+  checkpoint.reducto_recorded_usage = undefined;
+
+  const parsedChunks: ReductoChunk[] = parseResult.data?.chunks || [];
+  const classification = classifyDocument(parsedChunks, pdf.attachment_type);
+  console.log(
+    `[orchestrate] Classified ${pdf.url} as ${classification.attachment_type} ` +
+    `(${classification.method}, confidence ${classification.confidence})`
+  );
+
+  const chunks: PipelineChunk[] = parsedChunks.map((chunk) => ({
+    text: chunk.text,
+    file_number: pdf.file_number,
+    jurisdiction: pdf.jurisdiction,
+    matter_version: pdf.metadata.matter_version,
+    source_url: pdf.url,
+    page_number: chunk.page_number,
+    bbox: chunk.bbox,
+    chunk_index: chunk.chunk_index,
+    words: chunk.words,
+    table: chunk.table,
+    metadata: {
+      ...chunk.metadata,
+      table_id: chunk.metadata.table_index !== undefined ? tableId(pdf.url, chunk.metadata.table_index) : undefined,
+      // Matter context for search filters; Reducto knows nothing about it
+      body_name: pdf.metadata.body_name,
+      department: pdf.metadata.department,
+      sponsors: pdf.metadata.sponsors,
+      classification,
+      parser: parseResult.data?.parser,
+      discovered_at: pdf.discovered_at,
+      parsed_at: parseResult.data?.parsed_at,
+    },
+  }));
+
+  await saveCheckpointChunks(job.job_id, pdf.url, chunks);
+  await recordFileReferences(pdf, chunks);
+  checkpoint.stage = "parsed";
+  checkpoint.chunk_count = chunks.length;
+  checkpoint.parsed_at = parseResult.data?.parsed_at;
+  clearFailure(checkpoint);
+  await recordProgress(context, checkpoint);
+
+  return true;
+}
+
+/**
+ * Call reducto-parse for a PDF. Reducto parses run as async jobs: the first
+ * call submits one and saves its id on the checkpoint, later calls check it
+ * once. A job still running comes back as status "pending"; runPipeline checks
+ * it again without holding a parse slot in between. Throws on a failed parse.
+ */
+async function requestParse(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<{ data?: Partial<ReductoParseResult> }> {
+  const { job, baseUrl } = context;
+  const pdf = context.pdfsByUrl.get(checkpoint.source_url)!;
+
+  const callParse = async (options: { async?: boolean; webhook_url?: string; reducto_job_id?: string }) => {
+    const parseResponse = await fetch(`${baseUrl}/functions/v1/reducto-parse`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        pdf_url: pdf.url,
+        file_number: pdf.file_number,
+        parser: job.parser,
+        chunking: job.chunking,
+        ...options,
+      }),
+    });
+    const text = await parseResponse.text();
+
+    if (!parseResponse.ok) {
+      // A failed Reducto job stays failed; a retry submits a new one
+      let failedJob = false;
+      try {
+        failedJob = JSON.parse(text).data?.status === "failed";
+      } catch {
+        // Not JSON - the call itself failed
+      }
+      if (failedJob) {
+        checkpoint.reducto_job_id = undefined;
+        checkpoint.reducto_submitted_at = undefined;
+        checkpoint.reducto_recorded_usage = undefined;
+      }
+      throw new Error(text);
+    }
+
+    return JSON.parse(text);
+  };
+
+  if (checkpoint.reducto_job_id) {
+    return await callParse({ reducto_job_id: checkpoint.reducto_job_id });
+  }
+
+  const parseResult = await callParse({ async: true, webhook_url: reductoWebhookUrl(baseUrl) });
+  if (parseResult.data?.status === "pending") {
+    checkpoint.reducto_job_id = parseResult.data.reducto_job_id;
+    checkpoint.reducto_submitted_at = new Date().toISOString();
+
+    // Reducto bills the job whether or not it is waited for, so its estimated
+    // cost goes on the ledger now rather than when it completes
+    const estimate = estimateParse(job, checkpoint);
+    const submitUsage = await recordUsage({
+      job_id: job.job_id,
+      source_url: pdf.url,
+      file_number: pdf.file_number,
+      provider: "reducto",
+      credits: estimate.reducto_credits,
+      pages: estimate.pages,
+    });
+    job.usage = addUsage(job.usage, submitUsage);
+    checkpoint.reducto_recorded_usage = { credits: submitUsage.credits, pages: submitUsage.pages };
+
+    await saveCheckpoint(checkpoint);
+    console.log(`[orchestrate] Submitted Reducto job ${checkpoint.reducto_job_id} for ${pdf.url}`);
+  }
+  return parseResult;
+}
+
+/**
+ * Hold a PDF's estimated parse credits against max_credits until its submit is
+ * on the ledger, so parses submitted side by side cannot overrun the budget
+ * together. Throws if the budget has no room; returns the credits held.
+ */
+function reserveCredits(context: PipelineContext, checkpoint: DocumentCheckpoint): number {
+  const { job } = context;
+  const credits = estimateParse(job, checkpoint).reducto_credits;
+  const committedCredits = job.usage.reducto_credits + context.reservedCredits;
+
+  if (committedCredits + credits > job.max_credits) {
+    throw new Error(
+      `Credit budget exhausted: parsing ~${credits} more credits would exceed max_credits ` +
+      `(${job.usage.reducto_credits} of ${job.max_credits} Reducto credits used). ` +
+      `Rerun the job with a higher max_credits to continue.`
+    );
+  }
+
+  context.reservedCredits += credits;
+  return credits;
+}
+
+/**
+ * The estimated cost of parsing a PDF, from its page count when it is known
+ */
+function estimateParse(job: PipelineJob, checkpoint: DocumentCheckpoint): CostEstimate {
+  return estimateCost(checkpoint.fingerprint?.page_count || 1, job.parser);
+}
+
+/**
+ * The orchestrate URL Reducto calls when a job finishes, or undefined
+ * without REDUCTO_WEBHOOK_SECRET (paused jobs then wait for resume_job)
+ */
+function reductoWebhookUrl(baseUrl: string): string | undefined {
+  const secret = Deno.env.get("REDUCTO_WEBHOOK_SECRET");
+  return secret
+    ? `${baseUrl}/functions/v1/orchestrate?action=reducto_webhook&token=${encodeURIComponent(secret)}`
+    : undefined;
+}
+
+/**
+ * Add the files a document cites ("File No. XXXXXX") to the related-matter
+ * graph. Relations are context, so a failure here does not fail the parse.
+ */
+async function recordFileReferences(
+  pdf: FirecrawlDiscoveryResult,
+  chunks: PipelineChunk[]
+): Promise<void> {
+  // Agendas and minutes belong to no single file
+  if (!pdf.file_number) return;
+
+  const referenced = extractFileReferences(chunks.map((chunk) => chunk.text).join("\n"));
+  if (referenced.length === 0) return;
+
+  const discoveredAt = new Date().toISOString();
+  try {
+    await saveRelations(
+      referenced.map((relatedFileNumber) => ({
+        jurisdiction: pdf.jurisdiction || DEFAULT_JURISDICTION,
+        file_number: pdf.file_number,
+        related_file_number: relatedFileNumber,
+        source: "text",
+        source_url: pdf.url,
+        discovered_at: discoveredAt,
+      }))
+    );
+  } catch (error) {
+    console.warn(`[orchestrate] Could not save file references from ${pdf.url}:`, error);
+  }
+}
+
+/**
+ * Embed one PDF's chunks with voyage-embed and checkpoint the result.
+ * Returns false if embedding failed.
+ */
+async function embedDocument(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<boolean> {
+  const { job, baseUrl } = context;
+  const chunks = await loadCheckpointChunks(job.job_id, checkpoint.source_url);
+  let embeddedChunks: PipelineChunk[] = [];
+
+  if (chunks.length > 0) {
+    const estimatedTokens = chunks.reduce((total, c) => total + estimateTokens(c.text), 0);
+    const committedTokens = job.usage.embedding_tokens + context.reservedTokens;
+    if (committedTokens + estimatedTokens > job.max_tokens) {
+      throw new Error(
+        `Token budget exhausted: embedding ~${estimatedTokens} more tokens would exceed ` +
+        `max_tokens (${job.usage.embedding_tokens} of ${job.max_tokens} used). ` +
+        `Rerun the job with a higher max_tokens to continue.`
+      );
+    }
+
+    console.log(`[orchestrate] Embedding ${chunks.length} chunks from ${checkpoint.source_url}`);
+    context.reservedTokens += estimatedTokens;
+
+    try {
+      const embedResponse = await fetch(`${baseUrl}/functions/v1/voyage-embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chunks: chunks.map((c) => ({
+            text: c.text,
+            page_number: c.page_number,
+            bbox: c.bbox,
+            chunk_index: c.chunk_index,
+            words: c.words,
+            table: c.table,
+            metadata: c.metadata,
+          })),
+          file_number: checkpoint.file_number,
+          source_url: checkpoint.source_url,
+        }),
+      });
+
+      if (!embedResponse.ok) {
+        await recordFailure(context, checkpoint, "embed", await embedResponse.text());
+        return false;
+      }
+
+      const embedResult = await embedResponse.json();
+      // voyage-embed only echoes file_number and source_url back
+      const { jurisdiction, matter_version } = chunks[0];
+      embeddedChunks = (embedResult.data?.chunks || []).map(
+        (c: PipelineChunk) => ({ ...c, jurisdiction, matter_version })
+      );
+
+      const embedUsage = await recordUsage({
+        job_id: job.job_id,
+        source_url: checkpoint.source_url,
+        file_number: checkpoint.file_number,
+        provider: "voyage",
+        tokens: embedResult.data?.total_tokens || 0,
+      });
+      job.usage = addUsage(job.usage, embedUsage);
+    } catch (error) {
+      await recordFailure(context, checkpoint, "embed", (error as Error).message);
+      return false;
+    } finally {
+      context.reservedTokens -= estimatedTokens;
+    }
+  }
+
+  await saveCheckpointChunks(job.job_id, checkpoint.source_url, embeddedChunks);
+  checkpoint.stage = "embedded";
+  checkpoint.chunk_count = embeddedChunks.length;
+  clearFailure(checkpoint);
+  await recordProgress(context, checkpoint);
+
+  return true;
+}
+
+/**
+ * Upsert one PDF's embedded chunks to MongoDB and remember its fingerprint
+ */
+async function storeDocument(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<void> {
+  const { job, baseUrl } = context;
+  const chunks = await loadCheckpointChunks(job.job_id, checkpoint.source_url);
+
+  if (chunks.length > 0) {
+    try {
+      const upsertResponse = await fetch(`${baseUrl}/functions/v1/mongo-upsert`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "upsert",
+          documents: chunks,
+          // Drop chunks left over from a previous, longer version of the PDF
+          replace_sources: checkpoint.change_status === "changed",
+          tables: collectTables(chunks, {
+            source_url: checkpoint.source_url,
+            file_number: checkpoint.file_number,
+            jurisdiction: chunks[0].jurisdiction,
+            matter_version: chunks[0].matter_version,
+          }),
+        }),
+      });
+
+      if (!upsertResponse.ok) {
+        await recordFailure(context, checkpoint, "store", `Upsert failed: ${await upsertResponse.text()}`);
+        return;
+      }
+    } catch (error) {
+      await recordFailure(context, checkpoint, "store", (error as Error).message);
+      return;
+    }
+  }
+
+  checkpoint.stage = "stored";
+  checkpoint.stored_chunks = chunks.length;
+  clearFailure(checkpoint);
+  await recordProgress(context, checkpoint);
+  await clearCheckpointChunks(job.job_id, checkpoint.source_url);
+
+  // Only remember the fingerprint once the content is safely stored. A PDF that
+  // yielded no chunks is not remembered, so the next run tries it again instead
+  // of skipping it as unchanged.
+  if (chunks.length > 0) {
+    await rememberSource(context, checkpoint);
+  } else {
+    console.warn(`[orchestrate] No chunks stored for ${checkpoint.source_url}; it will be parsed again next run`);
+  }
+}
+
+/**
+ * The URL a new PDF is a copy of: an earlier PDF of this job with the same
+ * content, else a stored document. Null if the content has not been seen.
+ */
+async function findOriginalUrl(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<string | null> {
+  const contentHash = checkpoint.fingerprint?.content_hash;
+  if (!contentHash) return null;
+
+  const inJob = context.checkpoints.find((other) =>
+    other !== checkpoint &&
+    other.change_status !== undefined &&
+    other.change_status !== "duplicate" &&
+    other.fingerprint?.content_hash === contentHash
+  );
+  if (inJob) return inJob.source_url;
+
+  const stored = await findStoredOriginal(contentHash, checkpoint.source_url);
+  return stored?.source_url ?? null;
+}
+
+/**
+ * Link a copy's files (its own and its other matters) to the chunks of its
+ * original. Fails, to be retried, while the original itself has not been stored.
+ */
+async function linkDuplicate(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<void> {
+  const originalUrl = checkpoint.duplicate_of!;
+  const original = context.checkpoints.find((other) => other.source_url === originalUrl);
+
+  if (original && original.stage !== "stored") {
+    await recordFailure(context, checkpoint, "store", `Original ${originalUrl} has not been stored`);
+    return;
+  }
+
+  const pdf = context.pdfsByUrl.get(checkpoint.source_url)!;
+  if (!(await requestLink(context, checkpoint, originalUrl, matterLinks(checkpoint, mattersOf(pdf))))) {
+    return;
+  }
+
+  checkpoint.stage = "stored";
+  clearFailure(checkpoint);
+  await recordProgress(context, checkpoint);
+  await rememberSource(context, checkpoint);
+}
+
+/**
+ * Link a stored PDF's other matters to its own chunks
+ */
+async function linkOtherMatters(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<void> {
+  const pdf = context.pdfsByUrl.get(checkpoint.source_url)!;
+  if (!(await requestLink(context, checkpoint, checkpoint.source_url, matterLinks(checkpoint, pdf.other_matters || [])))) {
+    return;
+  }
+
+  checkpoint.other_matters_linked = true;
+  clearFailure(checkpoint);
+  await recordProgress(context, checkpoint);
+}
+
+/**
+ * Links for the matters a PDF was discovered under. Matters without a file
+ * number (e.g. crawled PDFs) have nothing to link.
+ */
+function matterLinks(checkpoint: DocumentCheckpoint, matters: DiscoveredMatter[]): DocumentLink[] {
+  return matters
+    .filter((matter) => matter.file_number)
+    .map((matter) => ({
+      file_number: matter.file_number,
+      jurisdiction: matter.jurisdiction,
+      matter_version: matter.matter_version,
+      source_url: checkpoint.source_url,
+    }));
+}
+
+/**
+ * Ask mongo-upsert to link files to the chunks stored for targetUrl.
+ * Returns false, with the failure recorded on checkpoint, if it could not.
+ */
+async function requestLink(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint,
+  targetUrl: string,
+  links: DocumentLink[]
+): Promise<boolean> {
+  if (links.length === 0) return true;
+
+  try {
+    const linkResponse = await fetch(`${context.baseUrl}/functions/v1/mongo-upsert`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "link", source_url: targetUrl, links }),
+    });
+
+    if (!linkResponse.ok) {
+      await recordFailure(context, checkpoint, "store", `Link failed: ${await linkResponse.text()}`);
+      return false;
+    }
+  } catch (error) {
+    await recordFailure(context, checkpoint, "store", (error as Error).message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Record a stored or linked PDF's fingerprint for later change and copy detection
+ */
+async function rememberSource(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<void> {
+  if (!checkpoint.fingerprint) return;
+
+  const pdf = context.pdfsByUrl.get(checkpoint.source_url);
+  await saveSourceDocument({
+    ...checkpoint.fingerprint,
+    source_url: checkpoint.source_url,
+    file_number: checkpoint.file_number,
+    matter_version: pdf?.metadata.matter_version,
+    jurisdiction: pdf?.jurisdiction,
+    ...(checkpoint.duplicate_of ? { duplicate_of: checkpoint.duplicate_of } : {}),
+    job_id: context.job.job_id,
+    last_ingested_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Persist a checkpoint and the job counters derived from it
+ */
+async function recordProgress(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint
+): Promise<void> {
+  await saveCheckpoint(checkpoint);
+  updateJobCounters(context.job, context.checkpoints);
+  await saveJob(context.job);
+
+  await context.emit("document", {
+    source_url: checkpoint.source_url,
+    file_number: checkpoint.file_number,
+    stage: checkpoint.stage,
+    change_status: checkpoint.change_status,
+    chunk_count: checkpoint.chunk_count,
+  });
+  await context.emit("counters", jobCounters(context.job));
+}
+
+/**
+ * Put a PDF on the job's dead-letter list. It stays at its last completed
+ * stage, so retry_failed picks it up from there.
+ */
+async function recordFailure(
+  context: PipelineContext,
+  checkpoint: DocumentCheckpoint,
+  stage: FailedStage,
+  message: string
+): Promise<void> {
+  console.error(`[orchestrate] ${stage} failed for ${checkpoint.source_url}: ${message}`);
+
+  checkpoint.error = message;
+  checkpoint.failed_stage = stage;
+  checkpoint.failed_at = new Date().toISOString();
+  checkpoint.attempts = (checkpoint.attempts || 0) + 1;
+  await recordProgress(context, checkpoint);
+
+  await context.emit("failure", { source_url: checkpoint.source_url, stage, message });
+}
+
+/**
+ * Take a PDF off the dead-letter list after a stage succeeds.
+ * The attempt count is kept for the record.
+ */
+function clearFailure(checkpoint: DocumentCheckpoint): void {
+  checkpoint.error = undefined;
+  checkpoint.failed_stage = undefined;
+  checkpoint.failed_at = undefined;
+}
+
+/**
+ * The job counters sent with "counters" progress events
+ */
+function jobCounters(job: PipelineJob): Record<string, unknown> {
+  return {
+    discovered_pdfs: job.discovered_pdfs.length,
+    parsed_chunks: job.parsed_chunks,
+    embedded_chunks: job.embedded_chunks,
+    upserted_chunks: job.upserted_chunks,
+    change_summary: job.change_summary,
+    usage: job.usage,
+    failed_documents: job.failed_documents,
+  };
+}
+
+/**
+ * Discover PDFs from each source in turn and merge them into one list. A
+ * URL an earlier source already found adds its matters to that PDF's
+ * other_matters instead. Without sources, the
+ * Legistar settings (file numbers, search terms, events, ...) are the only
+ * source. Sources that do not name a jurisdiction get the job's.
+ */
+export async function discoverPdfs(
+  baseUrl: string,
+  params: {
+    jurisdiction?: string;
+    file_numbers?: string[];
+    search_terms: string[];
+    since_days?: number;
+    events?: EventDiscoveryOptions;
+    sources?: DiscoverySourceConfig[];
+    limit: number;
+  }
+): Promise<FirecrawlDiscoveryResult[]> {
+  const { sources, limit, ...legistar } = params;
+  const configs: DiscoverySourceConfig[] = sources && sources.length > 0
+    ? sources.map((source) => withJurisdictionDefaults(source, params.jurisdiction))
+    : [{ type: "legistar", ...legistar }];
+
+  const discovered = createPdfList();
+
+  for (const source of configs) {
+    if (discovered.pdfs.length >= limit) break;
+
+    const pdfs = await discoverFromSource(baseUrl, source, limit - discovered.pdfs.length);
+    for (const pdf of pdfs) {
+      discovered.add(pdf);
+    }
+    console.log(`[orchestrate] Source ${source.type}: ${pdfs.length} PDFs`);
+  }
+
+  return discovered.pdfs.slice(0, limit);
+}
+
+/**
+ * A source with the job's jurisdiction if it names none. A Legistar source
+ * without search terms gets its jurisdiction's default_search_terms.
+ */
+function withJurisdictionDefaults(
+  source: DiscoverySourceConfig,
+  jobJurisdiction?: string
+): DiscoverySourceConfig {
+  const jurisdiction = source.jurisdiction ?? jobJurisdiction;
+  if (source.type !== "legistar") {
+    return { ...source, jurisdiction };
+  }
+  return {
+    ...source,
+    jurisdiction,
+    search_terms: source.search_terms ?? getJurisdiction(jurisdiction).default_search_terms,
+  };
+}
+
+/**
+ * Call firecrawl-discover for one source and return the PDFs it found
+ */
+async function discoverFromSource(
+  baseUrl: string,
+  source: DiscoverySourceConfig,
+  limit: number
+): Promise<FirecrawlDiscoveryResult[]> {
+  const discoverResponse = await fetch(`${baseUrl}/functions/v1/firecrawl-discover`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ source, limit }),
+  });
+
+  if (!discoverResponse.ok) {
+    throw new Error(`Discovery failed (${source.type}): ${await discoverResponse.text()}`);
+  }
+
+  const discoverResult = await discoverResponse.json();
+  return discoverResult.data?.discovered_pdfs || [];
+}
+
+/**
+ * Call legistar-history to store the histories and votes for some files
+ * of one jurisdiction
+ */
+export async function ingestHistory(
+  baseUrl: string,
+  fileNumbers: string[],
+  jurisdiction?: string
+): Promise<Record<string, unknown>> {
+  const historyResponse = await fetch(`${baseUrl}/functions/v1/legistar-history`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jurisdiction, file_numbers: fileNumbers }),
+  });
+
+  if (!historyResponse.ok) {
+    throw new Error(`History ingest failed: ${await historyResponse.text()}`);
+  }
+
+  const historyResult = await historyResponse.json();
+  return historyResult.data || {};
+}
+
+/**
+ * Admit items in order while their running estimated credit total stays
+ * within maxCredits. Items that do not fit are skipped, so a smaller PDF
+ * later in the list can still be admitted.
+ */
+export function selectWithinBudget<T>(
+  items: T[],
+  estimateOf: (item: T) => CostEstimate,
+  maxCredits: number
+): Set<T> {
+  const admitted = new Set<T>();
+  let committedCredits = 0;
+
+  for (const item of items) {
+    const credits = estimateOf(item).reducto_credits;
+    if (committedCredits + credits <= maxCredits) {
+      admitted.add(item);
+      committedCredits += credits;
+    }
+  }
+
+  return admitted;
+}
+
+/**
+ * Recompute job counters from the per-document checkpoints
+ */
+function updateJobCounters(job: PipelineJob, checkpoints: DocumentCheckpoint[]): void {
+  const sumChunks = (stage: DocumentStage) =>
+    checkpoints
+      .filter((checkpoint) => hasReachedStage(checkpoint, stage))
+      .reduce((total, checkpoint) => total + checkpoint.chunk_count, 0);
+
+  job.parsed_chunks = sumChunks("parsed");
+  job.embedded_chunks = sumChunks("embedded");
+  job.upserted_chunks = checkpoints.reduce((total, checkpoint) => total + checkpoint.stored_chunks, 0);
+
+  const countChanges = (status: ChangeStatus) =>
+    checkpoints.filter((checkpoint) => checkpoint.change_status === status).length;
+
+  job.change_summary = {
+    new: countChanges("new"),
+    changed: countChanges("changed"),
+    skipped: countChanges("unchanged"),
+    duplicates: countChanges("duplicate"),
+  };
+
+  job.failed_documents = checkpoints
+    .filter((checkpoint) => checkpoint.error && checkpoint.failed_stage)
+    .map((checkpoint) => ({
+      source_url: checkpoint.source_url,
+      file_number: checkpoint.file_number,
+      stage: checkpoint.failed_stage!,
+      error: checkpoint.error!,
+      attempts: checkpoint.attempts || 1,
+      failed_at: checkpoint.failed_at || checkpoint.updated_at,
+    }));
+}
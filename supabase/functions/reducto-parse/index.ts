@@ -1,69 +1,43 @@
 // =============================================================================
-// Reducto PDF Parsing Edge Function
+// PDF Parsing Edge Function
 // =============================================================================
-// Uses Reducto's pipeline API for layout-aware parsing with agentic enhancement
-// Pipeline ID: k9733pyz0cwnsq8cjfnfvcd8wn808r22
+// Parses a PDF into chunks with page numbers and bounding boxes. The name
+// predates parser backends: Reducto's API (layout-aware, billed per page) or
+// a local pdf.js text extractor (free, with OCR for scanned pages).
+// Parser "auto" (default) uses Reducto when REDUCTO_API_KEY is set and falls
+// back to pdf.js when Reducto fails or is out of credits; without a key it
+// uses pdf.js. PDF_PARSER sets the default for requests that don't choose.
+// pdf.js reads scanned pages with Tesseract OCR unless PDF_OCR is "false"
+// (OCR needs the native @napi-rs/canvas module to render pages).
+// Whatever the parser, its blocks are re-chunked to a steady size with
+// heading paths (see _shared/chunker.ts); "chunking" adjusts the sizes.
+// A Reducto parse can outlast the request: with "async" the PDF is submitted
+// as a Reducto job and the answer is status "pending" with its
+// reducto_job_id; calling again with that reducto_job_id checks the job and
+// returns the chunks once it has completed. Without "async", the function
+// waits for the job itself.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { ReductoChunk, ReductoParseResult, BoundingBox } from "../_shared/types.ts";
-import { createResponse, handleCors, getRequiredEnv, retryWithBackoff } from "../_shared/utils.ts";
-
-// Your Reducto Pipeline ID
-const PIPELINE_ID = "k976v77hd0bnc5sve8860njccs808hrz";
+import { ChunkingOptions, ParserBackend, ReductoParseResult } from "../_shared/types.ts";
+import { createResponse, handleCors, getRequiredEnv } from "../_shared/utils.ts";
+import { ParsedPdf, PdfParser, withFallback } from "../_shared/parser.ts";
+import { createReductoParser, ReductoJob, ReductoParser } from "../_shared/reducto.ts";
+import { createPdfjsParser, PdfjsCanvasModule, PdfjsModule, PdfjsOcrOptions } from "../_shared/pdfjs.ts";
+import { createTesseractOcr, TesseractModule } from "../_shared/ocr.ts";
+import { chunkBlocks } from "../_shared/chunker.ts";
 
 interface ParseRequest {
   pdf_url: string;
   file_number: string;
+  parser?: ParserBackend | "auto";
+  chunking?: ChunkingOptions;
+  async?: boolean;          // Submit a Reducto job and answer "pending" instead of waiting
+  webhook_url?: string;     // Called by Reducto when the async job finishes
+  reducto_job_id?: string;  // Check a submitted job instead of submitting
 }
 
-// Reducto Pipeline API response structure (flexible to handle different formats)
-interface ReductoPipelineResponse {
-  job_id: string;
-  status: string;
-  usage?: {
-    pages_processed: number;
-    credits_used: number;
-  };
-  result?: {
-    chunks?: Array<{
-      content: string;
-      blocks?: Array<{
-        type: string;
-        content: string;
-        bbox?: {
-          left: number;
-          top: number;
-          width: number;
-          height: number;
-          page: number;
-        };
-      }>;
-    }>;
-    // Alternative format: direct blocks array
-    blocks?: Array<{
-      type: string;
-      content: string;
-      bbox?: {
-        left: number;
-        top: number;
-        width: number;
-        height: number;
-        page: number;
-      };
-    }>;
-    // Alternative: markdown or text output
-    markdown?: string;
-    text?: string;
-  };
-  // Some pipelines return data at top level
-  chunks?: Array<Record<string, unknown>>;
-  blocks?: Array<Record<string, unknown>>;
-  markdown?: string;
-  text?: string;
-  studio_link?: string;
-  error?: string;
-}
+const PARSERS = ["reducto", "pdfjs", "auto"];
 
 serve(async (req: Request) => {
   const startTime = Date.now();
@@ -73,8 +47,6 @@ serve(async (req: Request) => {
   if (corsResponse) return corsResponse;
 
   try {
-    const REDUCTO_API_KEY = getRequiredEnv("REDUCTO_API_KEY");
-
     // Parse request
     if (req.method !== "POST") {
       return createResponse(null, "Method not allowed. Use POST.", startTime);
@@ -87,60 +59,82 @@ serve(async (req: Request) => {
     }
 
     const { pdf_url, file_number } = body;
+    const requested = body.parser || Deno.env.get("PDF_PARSER") || "auto";
+    if (!PARSERS.includes(requested)) {
+      return createResponse(null, `Unknown parser: ${requested}. Use one of: ${PARSERS.join(", ")}`, startTime);
+    }
 
     console.log(`[reducto-parse] Starting parse for: ${pdf_url}`);
     console.log(`[reducto-parse] File number: ${file_number}`);
-    console.log(`[reducto-parse] Using pipeline: ${PIPELINE_ID}`);
+    console.log(`[reducto-parse] Parser: ${requested}`);
+
+    const { reducto, pdfjs } = createParsers(requested as ParserBackend | "auto");
+    let parsed: ParsedPdf;
+    let reductoJobId = body.reducto_job_id;
 
-    // Call Reducto Parse API
-    const pipelineResponse = await retryWithBackoff(async () => {
-      const response = await fetch("https://platform.reducto.ai/parse", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${REDUCTO_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          document_url: pdf_url,
-        }),
-      });
+    if (reductoJobId || (body.async && reducto)) {
+      if (!reducto) {
+        return createResponse(null, "reducto_job_id needs the reducto or auto parser and REDUCTO_API_KEY", startTime);
+      }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Reducto API error: ${response.status} - ${errorText}`);
+      let job: ReductoJob;
+      if (reductoJobId) {
+        job = await reducto.check(reductoJobId);
+      } else {
+        try {
+          reductoJobId = await reducto.submit(pdf_url, body.webhook_url);
+          job = { status: "pending" };
+        } catch (error) {
+          if (requested !== "auto") throw error;
+          job = { status: "failed", error: (error as Error).message };
+        }
       }
 
-      return response.json() as Promise<ReductoPipelineResponse>;
-    });
+      if (job.status === "pending") {
+        console.log(`[reducto-parse] Reducto job ${reductoJobId} is still running`);
+        return createResponse<Partial<ReductoParseResult>>(
+          { source_url: pdf_url, file_number, parser: "reducto", reducto_job_id: reductoJobId, status: "pending" },
+          null,
+          startTime
+        );
+      }
 
-    if (pipelineResponse.error) {
-      throw new Error(`Reducto pipeline failed: ${pipelineResponse.error}`);
+      if (job.status === "completed") {
+        parsed = job.parsed;
+      } else if (requested === "auto") {
+        console.warn(`[reducto-parse] ${job.error}; falling back to pdfjs`);
+        parsed = { ...(await pdfjs.parse(pdf_url)), fallback_error: job.error };
+      } else {
+        return createResponse<Partial<ReductoParseResult>>(
+          { source_url: pdf_url, file_number, parser: "reducto", reducto_job_id: reductoJobId, status: "failed" },
+          job.error,
+          startTime
+        );
+      }
+    } else {
+      const parser: PdfParser = !reducto ? pdfjs : requested === "auto" ? withFallback(reducto, pdfjs) : reducto;
+      parsed = await parser.parse(pdf_url);
     }
 
-    console.log(`[reducto-parse] Job ID: ${pipelineResponse.job_id}`);
-    console.log(`[reducto-parse] Full response:`, JSON.stringify(pipelineResponse).substring(0, 2000));
-    if (pipelineResponse.studio_link) {
-      console.log(`[reducto-parse] Studio link: ${pipelineResponse.studio_link}`);
-    }
+    const chunks = chunkBlocks(parsed.chunks, body.chunking);
 
-    // Transform Reducto response to our chunk format
-    const chunks = transformPipelineResponse(
-      pipelineResponse,
-      pdf_url,
-      file_number
+    console.log(
+      `[reducto-parse] Extracted ${parsed.chunks.length} blocks from ${parsed.total_pages} pages with ${parsed.parser}, ` +
+      `chunked into ${chunks.length}`
     );
 
-    const totalPages = pipelineResponse.usage?.pages_processed ||
-      Math.max(...chunks.map(c => c.page_number), 1);
-
-    console.log(`[reducto-parse] Extracted ${chunks.length} chunks from ${totalPages} pages`);
-
     const result: ReductoParseResult = {
       source_url: pdf_url,
       file_number: file_number,
-      total_pages: totalPages,
-      chunks: chunks,
+      total_pages: parsed.total_pages,
+      chunks,
       parsed_at: new Date().toISOString(),
+      usage: parsed.usage,
+      parser: parsed.parser,
+      fallback_error: parsed.fallback_error,
+      // Kept after a fallback too: the failed Reducto job may still have been billed
+      reducto_job_id: reductoJobId,
+      status: "completed",
     };
 
     return createResponse(result, null, startTime);
@@ -151,159 +145,29 @@ serve(async (req: Request) => {
 });
 
 /**
- * Transform Reducto Pipeline response to our standardized chunk format
- * Handles multiple possible response formats
+ * The parsers for a request: pdf.js, and Reducto unless the request is for
+ * pdf.js or (with "auto") no REDUCTO_API_KEY is set. "reducto" requires the key.
  */
-function transformPipelineResponse(
-  response: ReductoPipelineResponse,
-  sourceUrl: string,
-  fileNumber: string
-): ReductoChunk[] {
-  const chunks: ReductoChunk[] = [];
-  let chunkIndex = 0;
-
-  // Try different response formats
-
-  // Format 1: result.chunks[].blocks[]
-  if (response.result?.chunks && response.result.chunks.length > 0) {
-    console.log(`[reducto-parse] Using format: result.chunks`);
-    for (const chunk of response.result.chunks) {
-      for (const block of chunk.blocks || []) {
-        chunks.push(createChunkFromBlock(block, chunkIndex++));
-      }
-      // Include chunk content if no blocks
-      if (chunk.content && (!chunk.blocks || chunk.blocks.length === 0)) {
-        chunks.push(createChunkFromText(chunk.content, chunkIndex++));
-      }
-    }
-  }
-
-  // Format 2: result.blocks[] (direct blocks array)
-  else if (response.result?.blocks && response.result.blocks.length > 0) {
-    console.log(`[reducto-parse] Using format: result.blocks`);
-    for (const block of response.result.blocks) {
-      chunks.push(createChunkFromBlock(block, chunkIndex++));
-    }
-  }
-
-  // Format 3: Top-level chunks or blocks
-  else if (response.chunks && Array.isArray(response.chunks)) {
-    console.log(`[reducto-parse] Using format: top-level chunks`);
-    for (const chunk of response.chunks) {
-      const text = (chunk as Record<string, unknown>).content ||
-                   (chunk as Record<string, unknown>).text ||
-                   JSON.stringify(chunk);
-      chunks.push(createChunkFromText(String(text), chunkIndex++));
-    }
-  }
-
-  // Format 4: Markdown or text output
-  else if (response.result?.markdown || response.result?.text || response.markdown || response.text) {
-    const text = response.result?.markdown || response.result?.text || response.markdown || response.text || "";
-    console.log(`[reducto-parse] Using format: markdown/text (${text.length} chars)`);
-    // Split into reasonable chunks
-    const paragraphs = text.split(/\n\n+/);
-    for (const para of paragraphs) {
-      if (para.trim().length > 10) {
-        chunks.push(createChunkFromText(para.trim(), chunkIndex++));
-      }
-    }
-  }
-
-  else {
-    console.warn(`[reducto-parse] No recognized data format in response`);
-  }
-
-  return chunks;
-}
-
-function createChunkFromBlock(block: Record<string, unknown>, index: number): ReductoChunk {
-  const bboxData = block.bbox as Record<string, number> | undefined;
-  const bbox: BoundingBox = bboxData
-    ? {
-        left: bboxData.left || 0,
-        top: bboxData.top || 0,
-        width: bboxData.width || 612,
-        height: bboxData.height || 792,
-      }
-    : { left: 0, top: 0, width: 612, height: 792 };
-
-  const content = String(block.content || block.text || "");
-  const pageNumber = bboxData?.page || 1;
-
-  return {
-    text: cleanText(content),
-    page_number: pageNumber,
-    bbox: bbox,
-    chunk_index: index,
-    metadata: {
-      section: detectSection(content),
-      table_detected: block.type === "table" || detectTableContent(content),
-    },
+function createParsers(requested: ParserBackend | "auto"): { reducto: ReductoParser | null; pdfjs: PdfParser } {
+  const ocr: PdfjsOcrOptions | undefined = Deno.env.get("PDF_OCR") === "false" ? undefined : {
+    engine: createTesseractOcr({
+      load_tesseract: () => import("npm:tesseract.js@7.0.0") as Promise<TesseractModule>,
+      languages: Deno.env.get("OCR_LANGUAGES") || "eng",
+    }),
+    load_canvas: () => import("npm:@napi-rs/canvas@0.1.100") as Promise<PdfjsCanvasModule>,
   };
-}
+  const pdfjs = createPdfjsParser({
+    load_pdfjs: () => import("npm:pdfjs-dist@4.10.38/legacy/build/pdf.mjs") as Promise<PdfjsModule>,
+    ocr,
+  });
 
-function createChunkFromText(text: string, index: number): ReductoChunk {
-  return {
-    text: cleanText(text),
-    page_number: 1,
-    bbox: { left: 0, top: 0, width: 612, height: 792 },
-    chunk_index: index,
-    metadata: {
-      section: detectSection(text),
-      table_detected: detectTableContent(text),
-    },
-  };
-}
-
-/**
- * Detect section headers from content
- */
-function detectSection(content: string): string | undefined {
-  // Common EIR section patterns
-  const sectionPatterns = [
-    { pattern: /(?:SECTION|CHAPTER)\s*(\d+[.\d]*)\s*[-:.]?\s*(.+)/i, group: 2 },
-    { pattern: /^(\d+[.\d]*)\s+([A-Z][A-Z\s]+)$/m, group: 2 },
-    { pattern: /^(EXECUTIVE SUMMARY|INTRODUCTION|BACKGROUND|ENVIRONMENTAL SETTING)/im, group: 1 },
-    { pattern: /^(NOISE|WIND|SHADOW|TRANSPORTATION|AIR QUALITY|AESTHETICS)/im, group: 1 },
-    { pattern: /^(GEOTECHNICAL|HAZARDS|HYDROLOGY|UTILITIES)/im, group: 1 },
-    { pattern: /^(ALTERNATIVES|MITIGATION|CUMULATIVE IMPACTS)/im, group: 1 },
-    { pattern: /^(RTO-C|RESIDENTIAL|ZONING|LAND USE)/im, group: 1 },
-  ];
-
-  for (const { pattern, group } of sectionPatterns) {
-    const match = content.match(pattern);
-    if (match && match[group]) {
-      return match[group].trim();
-    }
+  if (requested === "pdfjs") {
+    return { reducto: null, pdfjs };
+  }
+  if (requested === "reducto") {
+    return { reducto: createReductoParser({ api_key: getRequiredEnv("REDUCTO_API_KEY") }), pdfjs };
   }
 
-  return undefined;
-}
-
-/**
- * Detect if content contains table data
- */
-function detectTableContent(content: string): boolean {
-  const tableIndicators = [
-    /\|.*\|.*\|/,           // Pipe-delimited
-    /\t.*\t.*\t/,           // Tab-delimited
-    /^\s*\d+\s+\d+\s+\d+/m, // Numeric columns
-    /dB[A]?\s*$/m,          // Decibel measurements (noise studies)
-    /mph\s*$/m,             // Wind speed measurements
-    /feet\s+\d+/i,          // Distance measurements
-  ];
-
-  return tableIndicators.some((pattern) => pattern.test(content));
-}
-
-/**
- * Clean and normalize text content
- */
-function cleanText(content: string): string {
-  return content
-    .replace(/\s+/g, " ")
-    .replace(/Page\s+\d+\s+of\s+\d+/gi, "")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
+  const apiKey = Deno.env.get("REDUCTO_API_KEY");
+  return { reducto: apiKey ? createReductoParser({ api_key: apiKey }) : null, pdfjs };
 }
@@ -136,9 +136,9 @@ serve(async (req: Request) => {
 function prepareTextForEmbedding(chunk: ReductoChunk): string {
   const parts: string[] = [];
 
-  // Add section context if available
-  if (chunk.metadata.section) {
-    parts.push(`[Section: ${chunk.metadata.section}]`);
+  // Add section context if available, preferring the full heading path
+  if (chunk.metadata.heading_path || chunk.metadata.section) {
+    parts.push(`[Section: ${chunk.metadata.heading_path || chunk.metadata.section}]`);
   }
 
   // Add page context